@@ -0,0 +1,120 @@
+// Builds src/data/world-cities.json, the gazetteer the geocoder searches
+// when the geocoding service can't be reached, from the GeoNames cities in
+// the all-the-cities package. Each city's region (state, province, ...) is
+// the one of the nearest city in the same country in the country-state-city
+// package, which names them.
+//
+//   npm run build:gazetteer [-- --min-population 50000]
+
+import { writeFileSync } from "node:fs";
+import { createRequire } from "node:module";
+import { City, State } from "country-state-city";
+
+const require = createRequire(import.meta.url);
+const cities = require("all-the-cities");
+
+const OUTPUT = new URL("../src/data/world-cities.json", import.meta.url);
+
+const populationArg = process.argv.indexOf("--min-population");
+const MIN_POPULATION =
+  populationArg >= 0 ? Number(process.argv[populationArg + 1]) : 50000;
+
+// Historical, abandoned, destroyed places and sections of other places
+const EXCLUDED_FEATURES = new Set(["PPLH", "PPLQ", "PPLW", "PPLX"]);
+
+// ~110 m, which moves the sun times by under a second
+const round = (value) => Math.round(value * 1e3) / 1e3;
+
+// Cities further than this from any named one get no region
+const MAX_REGION_DEGREES = 1;
+
+// Named cities bucketed by country and whole degree, so the nearest one is
+// found among the neighbouring buckets
+const regionCities = new Map();
+City.getAllCities().forEach((city) => {
+  const latitude = Number(city.latitude);
+  const longitude = Number(city.longitude);
+  const key = `${city.countryCode}|${Math.floor(latitude)}|${Math.floor(
+    longitude
+  )}`;
+  if (!regionCities.has(key)) regionCities.set(key, []);
+  regionCities.get(key).push({ latitude, longitude, code: city.stateCode });
+});
+
+const regionOf = (country, latitude, longitude) => {
+  let nearest = null;
+  let nearestDistance = MAX_REGION_DEGREES ** 2;
+  const scale = Math.cos((latitude * Math.PI) / 180);
+  for (let dLat = -1; dLat <= 1; dLat++) {
+    for (let dLng = -1; dLng <= 1; dLng++) {
+      const key = `${country}|${Math.floor(latitude) + dLat}|${
+        Math.floor(longitude) + dLng
+      }`;
+      (regionCities.get(key) ?? []).forEach((city) => {
+        const distance =
+          (city.latitude - latitude) ** 2 +
+          ((city.longitude - longitude) * scale) ** 2;
+        if (distance < nearestDistance) {
+          nearest = city;
+          nearestDistance = distance;
+        }
+      });
+    }
+  }
+  return nearest
+    ? State.getStateByCodeAndCountry(nearest.code, country)?.name ?? null
+    : null;
+};
+
+const countryNames = new Intl.DisplayNames(["en"], { type: "region" });
+
+const selected = cities
+  .filter(
+    (city) =>
+      city.population >= MIN_POPULATION &&
+      !EXCLUDED_FEATURES.has(city.featureCode)
+  )
+  .sort((a, b) => b.population - a.population);
+
+const countries = Object.fromEntries(
+  [...new Set(selected.map((city) => city.country))]
+    .sort()
+    .map((code) => [code, countryNames.of(code) ?? code])
+);
+
+const regions = [];
+const regionIndex = new Map();
+
+const gazetteer = {
+  minPopulation: MIN_POPULATION,
+  countries,
+  regions,
+  // [name, country code, latitude, longitude, region index?], most
+  // populous first
+  cities: selected.map((city) => {
+    const [longitude, latitude] = city.loc.coordinates;
+    const row = [city.name, city.country, round(latitude), round(longitude)];
+
+    const region = regionOf(city.country, latitude, longitude);
+    if (region) {
+      if (!regionIndex.has(region)) {
+        regionIndex.set(region, regions.length);
+        regions.push(region);
+      }
+      row.push(regionIndex.get(region));
+    }
+    return row;
+  }),
+};
+
+// A city per line, so rebuilds diff readably
+const { cities: rows, ...header } = gazetteer;
+writeFileSync(
+  OUTPUT,
+  `${JSON.stringify(header).slice(0, -1)},"cities":[\n${rows
+    .map((row) => JSON.stringify(row))
+    .join(",\n")}\n]}\n`
+);
+console.log(
+  `Wrote ${gazetteer.cities.length} cities with at least ${MIN_POPULATION} inhabitants`
+);
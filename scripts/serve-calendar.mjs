@@ -0,0 +1,77 @@
+// Serves the sun calendar feed that the Places page's subscribe URL points
+// to, running the app's own calendar code through Vite so the feed and the
+// downloaded .ics files stay identical.
+//
+//   npm run serve:calendar [-- --port 8787]
+//
+// GET /sun-calendar.ics?location=Paris&lat=48.8566&lng=2.3522
+//   &tz=Europe/Paris&events=sunrise,sunset,golden_hour&days=90
+//   [&source=sunrise-sunset.org][&alarm=30][&from=2026-06-01&to=2026-06-30]
+
+import { createServer } from "node:http";
+import { createServer as createViteServer } from "vite";
+
+const portArg = process.argv.indexOf("--port");
+const PORT = portArg >= 0 ? Number(process.argv[portArg + 1]) : 8787;
+const FEED_PATH = "/sun-calendar.ics";
+
+const vite = await createViteServer({
+  server: { middlewareMode: true, hmr: false },
+  appType: "custom",
+  logLevel: "error",
+});
+const { createSunCalendar, readSunCalendarParams } = await vite.ssrLoadModule(
+  "/src/services/sunCalendar.ts"
+);
+
+const send = (response, status, body, headers = {}) => {
+  response.writeHead(status, {
+    "Access-Control-Allow-Origin": "*",
+    "Content-Type": "text/plain; charset=utf-8",
+    ...headers,
+  });
+  response.end(body);
+};
+
+const handle = async (request, response) => {
+  const url = new URL(request.url, `http://${request.headers.host}`);
+  if (request.method !== "GET" || url.pathname !== FEED_PATH) {
+    send(response, 404, "Not found\n");
+    return;
+  }
+
+  const { value, error } = readSunCalendarParams(url.searchParams);
+  if (error) {
+    send(response, 400, `${error}\n`);
+    return;
+  }
+
+  const { data, error: calendarError } = await createSunCalendar(value);
+  if (calendarError) {
+    console.error("Error building calendar:", calendarError);
+    send(response, 500, "The stored times could not be loaded\n");
+    return;
+  }
+
+  send(response, 200, data, {
+    "Content-Type": "text/calendar; charset=utf-8",
+    "Cache-Control": "max-age=3600",
+  });
+};
+
+// Bad parameters are answered above with 400; anything thrown past the
+// checks is the server's fault, and must not take it down
+const server = createServer(async (request, response) => {
+  try {
+    await handle(request, response);
+  } catch (error) {
+    console.error("Error serving calendar:", error);
+    if (!response.headersSent) {
+      send(response, 500, "The calendar could not be built\n");
+    }
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Sun calendar feed at http://localhost:${PORT}${FEED_PATH}`);
+});
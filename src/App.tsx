@@ -6,6 +6,9 @@ import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
 import Visualize from "./pages/Visualize";
 import Conclusions from "./pages/Conclusions";
+import Places from "./pages/Places";
+import MapPage from "./pages/MapPage";
+import ImportData from "./pages/ImportData";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -20,6 +23,9 @@ const App = () => (
           <Route path="/" element={<Index />} />
           <Route path="/visualize" element={<Visualize />} />
           <Route path="/conclusions" element={<Conclusions />} />
+          <Route path="/map" element={<MapPage />} />
+          <Route path="/places" element={<Places />} />
+          <Route path="/import" element={<ImportData />} />
           <Route path="*" element={<NotFound />} />
         </Routes>
       </BrowserRouter>
@@ -0,0 +1,388 @@
+import { useEffect, useState } from "react";
+import { ArrowUpDown } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import ExportDataDialog from "@/components/ExportDataDialog";
+import { cn } from "@/lib/utils";
+import {
+  AstronomicalTableRow,
+  SortableColumn,
+  toTableRow,
+} from "@/lib/astronomicalTable";
+import {
+  formatDateTime,
+  formatTime,
+  TIME_DISPLAY_MODES,
+  TimeDisplayMode,
+  timeZoneLabel,
+} from "@/lib/timezone";
+import {
+  AstronomicalDataFilters,
+  queryAstronomicalData,
+} from "@/services/queryAstronomicalData";
+
+interface AstronomicalDataTableProps {
+  filters: AstronomicalDataFilters;
+}
+
+const PAGE_SIZES = [25, 50, 100];
+
+// Page numbers to show, with null marking a gap
+const pageNumbers = (page: number, pageCount: number) => {
+  const pages: (number | null)[] = [];
+  for (let i = 1; i <= pageCount; i++) {
+    if (i === 1 || i === pageCount || Math.abs(i - page) <= 1) {
+      pages.push(i);
+    } else if (pages[pages.length - 1] !== null) {
+      pages.push(null);
+    }
+  }
+  return pages;
+};
+
+// Filtering, sorting and paging all happen in the database query
+const AstronomicalDataTable = ({ filters }: AstronomicalDataTableProps) => {
+  const [rows, setRows] = useState<AstronomicalTableRow[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [sortBy, setSortBy] = useState<SortableColumn>("date");
+  const [sortOrder, setSortOrder] = useState<"asc" | "desc">("desc");
+  const [page, setPage] = useState(1);
+  const [pageSize, setPageSize] = useState(PAGE_SIZES[0]);
+  const [timeMode, setTimeMode] = useState<TimeDisplayMode>("location");
+
+  const { location, dateFrom, dateTo, source } = filters;
+
+  // New filters start from the first page
+  useEffect(() => {
+    setPage(1);
+  }, [location, dateFrom, dateTo, source]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchPage = async () => {
+      setIsLoading(true);
+      try {
+        const { data, count, error } = await queryAstronomicalData({
+          location,
+          dateFrom,
+          dateTo,
+          source,
+          sortBy,
+          sortOrder,
+          page,
+          pageSize,
+        });
+        if (error) throw error;
+        if (cancelled) return;
+
+        setRows((data || []).map((item) => toTableRow(item, timeMode)));
+        setTotalCount(count ?? 0);
+      } catch (error) {
+        console.error("Error fetching data:", error);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    fetchPage();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [
+    location,
+    dateFrom,
+    dateTo,
+    source,
+    sortBy,
+    sortOrder,
+    page,
+    pageSize,
+    timeMode,
+  ]);
+
+  const handleSort = (column: SortableColumn) => {
+    if (sortBy === column) {
+      setSortOrder(sortOrder === "asc" ? "desc" : "asc");
+    } else {
+      setSortBy(column);
+      setSortOrder("asc");
+    }
+    setPage(1);
+  };
+
+  const pageCount = Math.max(1, Math.ceil(totalCount / pageSize));
+  const firstRow = (page - 1) * pageSize + 1;
+  const lastRow = Math.min(page * pageSize, totalCount);
+
+  return (
+    <Card className="mb-8">
+      <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+        <CardTitle>Collected Astronomical Data</CardTitle>
+        <div className="flex items-center gap-2">
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            size="sm"
+            value={timeMode}
+            onValueChange={(value) =>
+              value && setTimeMode(value as TimeDisplayMode)
+            }
+          >
+            {TIME_DISPLAY_MODES.map((mode) => (
+              <ToggleGroupItem key={mode.value} value={mode.value}>
+                {mode.label}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+          <ExportDataDialog
+            query={{ location, dateFrom, dateTo, source, sortBy, sortOrder }}
+            rowCount={totalCount}
+          />
+        </div>
+      </CardHeader>
+      <CardContent>
+        <ScrollArea className={cn("h-96", isLoading && "opacity-50")}>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead
+                  onClick={() => handleSort("location")}
+                  className="cursor-pointer"
+                >
+                  <div className="flex items-center">
+                    Location
+                    <ArrowUpDown className="ml-1 h-4 w-4" />
+                  </div>
+                </TableHead>
+                <TableHead
+                  onClick={() => handleSort("date")}
+                  className="cursor-pointer"
+                >
+                  <div className="flex items-center">
+                    Date
+                    <ArrowUpDown className="ml-1 h-4 w-4" />
+                  </div>
+                </TableHead>
+                <TableHead>Time Zone</TableHead>
+                <TableHead
+                  onClick={() => handleSort("sunrise")}
+                  className="cursor-pointer"
+                >
+                  <div className="flex items-center">
+                    <div className="leading-tight">
+                      Sunrise
+                      {timeMode !== "location" && (
+                        <span className="block text-xs font-normal">
+                          sorts by location time
+                        </span>
+                      )}
+                    </div>
+                    <ArrowUpDown className="ml-1 h-4 w-4" />
+                  </div>
+                </TableHead>
+                <TableHead
+                  onClick={() => handleSort("sunset")}
+                  className="cursor-pointer"
+                >
+                  <div className="flex items-center">
+                    <div className="leading-tight">
+                      Sunset
+                      {timeMode !== "location" && (
+                        <span className="block text-xs font-normal">
+                          sorts by location time
+                        </span>
+                      )}
+                    </div>
+                    <ArrowUpDown className="ml-1 h-4 w-4" />
+                  </div>
+                </TableHead>
+                <TableHead>
+                  <div className="leading-tight">
+                    Morning Twilight
+                    <span className="block text-xs font-normal">
+                      astro / nautical / civil
+                    </span>
+                  </div>
+                </TableHead>
+                <TableHead>
+                  <div className="leading-tight">
+                    Evening Twilight
+                    <span className="block text-xs font-normal">
+                      civil / nautical / astro
+                    </span>
+                  </div>
+                </TableHead>
+                <TableHead>Golden Hour</TableHead>
+                <TableHead
+                  onClick={() => handleSort("day_length")}
+                  className="cursor-pointer"
+                >
+                  <div className="flex items-center">
+                    Day Length (min)
+                    <ArrowUpDown className="ml-1 h-4 w-4" />
+                  </div>
+                </TableHead>
+                <TableHead>Next ISS Pass</TableHead>
+                <TableHead
+                  onClick={() => handleSort("source")}
+                  className="cursor-pointer"
+                >
+                  <div className="flex items-center">
+                    Source
+                    <ArrowUpDown className="ml-1 h-4 w-4" />
+                  </div>
+                </TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((item) => (
+                <TableRow key={item.id}>
+                  <TableCell>{item.location}</TableCell>
+                  <TableCell>{item.date.toLocaleDateString()}</TableCell>
+                  <TableCell>
+                    {timeZoneLabel(item.sunrise ?? item.date, item.timeZone)}
+                  </TableCell>
+                  <TableCell>
+                    {formatTime(item.sunrise, item.timeZone)}
+                  </TableCell>
+                  <TableCell>
+                    {formatTime(item.sunset, item.timeZone)}
+                  </TableCell>
+                  <TableCell className="text-xs whitespace-nowrap">
+                    {item.morningTwilight.map((time, i) => (
+                      <div key={i}>{formatTime(time, item.timeZone)}</div>
+                    ))}
+                  </TableCell>
+                  <TableCell className="text-xs whitespace-nowrap">
+                    {item.eveningTwilight.map((time, i) => (
+                      <div key={i}>{formatTime(time, item.timeZone)}</div>
+                    ))}
+                  </TableCell>
+                  <TableCell>
+                    {formatTime(item.goldenHour, item.timeZone)}
+                  </TableCell>
+                  <TableCell>{Math.round(item.dayLength / 60)}</TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    {formatDateTime(item.issNextPass, item.timeZone)}
+                  </TableCell>
+                  <TableCell>{item.source}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </ScrollArea>
+      </CardContent>
+      <CardFooter className="flex flex-col sm:flex-row items-center justify-between gap-4">
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <span>
+            {totalCount === 0
+              ? "No rows"
+              : `${firstRow}–${lastRow} of ${totalCount} rows`}
+          </span>
+          <Select
+            value={String(pageSize)}
+            onValueChange={(value) => {
+              setPageSize(Number(value));
+              setPage(1);
+            }}
+          >
+            <SelectTrigger className="w-24 h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PAGE_SIZES.map((size) => (
+                <SelectItem key={size} value={String(size)}>
+                  {size} / page
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {pageCount > 1 && (
+          <Pagination className="mx-0 w-auto">
+            <PaginationContent>
+              <PaginationItem>
+                <PaginationPrevious
+                  href="#"
+                  onClick={(e) => {
+                    e.preventDefault();
+                    setPage(Math.max(1, page - 1));
+                  }}
+                  className={cn(page === 1 && "pointer-events-none opacity-50")}
+                />
+              </PaginationItem>
+              {pageNumbers(page, pageCount).map((item, index) =>
+                item === null ? (
+                  <PaginationItem key={`ellipsis-${index}`}>
+                    <PaginationEllipsis />
+                  </PaginationItem>
+                ) : (
+                  <PaginationItem key={item}>
+                    <PaginationLink
+                      href="#"
+                      isActive={item === page}
+                      onClick={(e) => {
+                        e.preventDefault();
+                        setPage(item);
+                      }}
+                    >
+                      {item}
+                    </PaginationLink>
+                  </PaginationItem>
+                )
+              )}
+              <PaginationItem>
+                <PaginationNext
+                  href="#"
+                  onClick={(e) => {
+                    e.preventDefault();
+                    setPage(Math.min(pageCount, page + 1));
+                  }}
+                  className={cn(
+                    page === pageCount && "pointer-events-none opacity-50"
+                  )}
+                />
+              </PaginationItem>
+            </PaginationContent>
+          </Pagination>
+        )}
+      </CardFooter>
+    </Card>
+  );
+};
+
+export default AstronomicalDataTable;
@@ -0,0 +1,201 @@
+import { differenceInCalendarDays, format, parseISO } from "date-fns";
+import { History, Pause, Play, RotateCcw, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  CollectionJob,
+  describeLocations,
+  getJobLocations,
+} from "@/services/collectionJobs";
+import { parseCollectionKey } from "@/services/collectAstronomicalData";
+
+interface CollectionJobsPanelProps {
+  jobs: CollectionJob[];
+  runningIds: string[];
+  onPause: (id: string) => void;
+  onResume: (id: string) => void;
+  onCancel: (id: string) => void;
+}
+
+// Number of failed entries listed before the rest are summarized
+const FAILED_SHOWN = 5;
+
+const formatDate = (date: string) => format(parseISO(date), "PP");
+
+const formatKey = (key: string) => {
+  const { location, date } = parseCollectionKey(key);
+  return `${location} ${date}`;
+};
+
+const CollectionJobsPanel = ({
+  jobs,
+  runningIds,
+  onPause,
+  onResume,
+  onCancel,
+}: CollectionJobsPanelProps) => {
+  if (jobs.length === 0) return null;
+
+  return (
+    <Card className="mt-8">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Collection Jobs
+        </CardTitle>
+        <CardDescription>
+          Recent collection runs. Paused and interrupted runs continue where
+          they stopped.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Location</TableHead>
+              <TableHead>Dates</TableHead>
+              <TableHead>Coverage</TableHead>
+              <TableHead>Failures</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {jobs.map((job) => {
+              const isRunning = runningIds.includes(job.id);
+              // Still "running" in the database, but nothing is running it
+              const interrupted = job.status === "running" && !isRunning;
+              const status = interrupted ? "interrupted" : job.status;
+              const locations = getJobLocations(job);
+              const totalDates =
+                differenceInCalendarDays(
+                  parseISO(job.date_to),
+                  parseISO(job.date_from)
+                ) + 1;
+              const totalEntries = totalDates * locations.length;
+              const coverage = Math.floor(
+                (job.completed_keys.length / totalEntries) * 100
+              );
+              const canResume =
+                !isRunning &&
+                (interrupted ||
+                  job.status === "paused" ||
+                  (job.status === "completed" && job.failed_keys.length > 0));
+              const canCancel =
+                isRunning || interrupted || job.status === "paused";
+
+              return (
+                <TableRow key={job.id}>
+                  <TableCell
+                    className="font-medium"
+                    title={locations
+                      .map((location) => location.name)
+                      .join(", ")}
+                  >
+                    {describeLocations(job)}
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    {formatDate(job.date_from)} – {formatDate(job.date_to)}
+                  </TableCell>
+                  <TableCell className="min-w-40">
+                    <Progress value={coverage} className="h-2" />
+                    <span className="text-xs text-muted-foreground">
+                      {job.completed_keys.length} of {totalEntries}{" "}
+                      {locations.length > 1 ? "location-days" : "days"}
+                    </span>
+                  </TableCell>
+                  <TableCell>
+                    {job.failed_keys.length === 0 ? (
+                      <span className="text-muted-foreground">None</span>
+                    ) : (
+                      <span
+                        className="text-red-600 text-xs"
+                        title={job.failed_keys.map(formatKey).join(", ")}
+                      >
+                        {job.failed_keys
+                          .slice(0, FAILED_SHOWN)
+                          .map(formatKey)
+                          .join(", ")}
+                        {job.failed_keys.length > FAILED_SHOWN &&
+                          ` and ${job.failed_keys.length - FAILED_SHOWN} more`}
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge
+                      variant={
+                        status === "completed"
+                          ? "default"
+                          : status === "cancelled"
+                          ? "outline"
+                          : "secondary"
+                      }
+                    >
+                      {status}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    {isRunning && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Pause"
+                        onClick={() => onPause(job.id)}
+                      >
+                        <Pause className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {canResume && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title={
+                          job.status === "completed" ? "Retry failed" : "Resume"
+                        }
+                        onClick={() => onResume(job.id)}
+                      >
+                        {job.status === "completed" ? (
+                          <RotateCcw className="h-4 w-4" />
+                        ) : (
+                          <Play className="h-4 w-4" />
+                        )}
+                      </Button>
+                    )}
+                    {canCancel && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Cancel"
+                        onClick={() => onCancel(job.id)}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CollectionJobsPanel;
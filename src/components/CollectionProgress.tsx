@@ -0,0 +1,99 @@
+import { Progress } from "@/components/ui/progress";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { cn } from "@/lib/utils";
+import { QueueGroupCounts, QueueProgress } from "@/services/collectionQueue";
+import { parseCollectionKey } from "@/services/collectAstronomicalData";
+
+interface CollectionProgressProps {
+  progress: QueueProgress;
+}
+
+const addCounts = (a: QueueGroupCounts, b: QueueGroupCounts) =>
+  Object.fromEntries(
+    Object.keys(a).map((status) => [
+      status,
+      a[status as keyof QueueGroupCounts] + b[status as keyof QueueGroupCounts],
+    ])
+  ) as QueueGroupCounts;
+
+const Counts = ({ counts }: { counts: QueueGroupCounts }) => (
+  <span className="flex gap-2">
+    <span className="text-green-600">{counts.succeeded} ok</span>
+    <span className={cn(counts.failed > 0 && "text-red-600")}>
+      {counts.failed} failed
+    </span>
+    <span className={cn(counts.retrying > 0 && "text-amber-600")}>
+      {counts.retrying} retrying
+    </span>
+    {counts.pending + counts.running > 0 && (
+      <span className="text-muted-foreground">
+        {counts.pending + counts.running} left
+      </span>
+    )}
+  </span>
+);
+
+// Overall progress of a collection queue and the request counts per
+// location and date
+const CollectionProgress = ({ progress }: CollectionProgressProps) => {
+  const percent = progress.total
+    ? Math.floor((progress.settled / progress.total) * 100)
+    : 0;
+
+  const locations = Object.entries(progress.groups).reduce(
+    (result, [key, counts]) => {
+      // Grouped by id, as places with the same name are listed separately
+      const { locationId, location, date } = parseCollectionKey(key);
+      if (!result[locationId]) {
+        result[locationId] = { location, total: counts, dates: [] };
+      } else {
+        result[locationId].total = addCounts(result[locationId].total, counts);
+      }
+      result[locationId].dates.push({ date, counts });
+      return result;
+    },
+    {} as Record<
+      string,
+      {
+        location: string;
+        total: QueueGroupCounts;
+        dates: { date: string; counts: QueueGroupCounts }[];
+      }
+    >
+  );
+
+  return (
+    <div className="mt-4">
+      <Progress value={percent} className="h-2" />
+      <p className="text-xs text-center mt-1 text-muted-foreground">
+        {percent}% complete ({progress.settled} of {progress.total} requests)
+      </p>
+
+      <ScrollArea className="h-40 mt-2 rounded border">
+        <div className="p-2 space-y-2 text-xs">
+          {Object.entries(locations).map(
+            ([locationId, { location, total, dates }]) => (
+              <div key={locationId}>
+                <div className="flex items-center justify-between font-semibold">
+                  <span>{location}</span>
+                  <Counts counts={total} />
+                </div>
+                {dates.map(({ date, counts }) => (
+                  <div
+                    key={date}
+                    className="flex items-center justify-between pl-3"
+                  >
+                    <span>{date}</span>
+                    <Counts counts={counts} />
+                  </div>
+                ))}
+              </div>
+            )
+          )}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+};
+
+export default CollectionProgress;
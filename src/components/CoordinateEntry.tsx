@@ -0,0 +1,122 @@
+import { ClipboardEvent, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  CoordinateAxis,
+  Coordinates,
+  parseCoordinate,
+  parseCoordinatePair,
+} from "@/lib/coordinates";
+
+export interface CoordinateEntryValue {
+  // Empty when the place should be named by reverse geocoding
+  name: string;
+  latitude: number;
+  longitude: number;
+}
+
+interface CoordinateEntryProps {
+  initialValue?: Coordinates | null;
+  onAdd: (value: CoordinateEntryValue) => void;
+  disabled?: boolean;
+  busy?: boolean;
+}
+
+// Latitude and longitude typed separately in decimal or DMS notation, or
+// pasted together into either field
+const CoordinateEntry = ({
+  initialValue,
+  onAdd,
+  disabled,
+  busy,
+}: CoordinateEntryProps) => {
+  const [name, setName] = useState("");
+  const [text, setText] = useState<Record<CoordinateAxis, string>>({
+    latitude: initialValue ? String(initialValue.latitude) : "",
+    longitude: initialValue ? String(initialValue.longitude) : "",
+  });
+
+  const latitude = parseCoordinate(text.latitude, "latitude");
+  const longitude = parseCoordinate(text.longitude, "longitude");
+  const isValid = latitude.error === null && longitude.error === null;
+
+  const handlePaste = (event: ClipboardEvent<HTMLInputElement>) => {
+    const pasted = event.clipboardData.getData("text");
+    const pair = parseCoordinatePair(pasted);
+    // A single value pastes as usual
+    if (!pair.value) return;
+
+    event.preventDefault();
+    setText({
+      latitude: String(pair.value.latitude),
+      longitude: String(pair.value.longitude),
+    });
+  };
+
+  const handleAdd = () => {
+    if (!isValid) return;
+    onAdd({
+      name: name.trim(),
+      latitude: latitude.value,
+      longitude: longitude.value,
+    });
+    setName("");
+    setText({ latitude: "", longitude: "" });
+  };
+
+  const field = (axis: CoordinateAxis, label: string, placeholder: string) => {
+    const { error } = axis === "latitude" ? latitude : longitude;
+    const showError = text[axis].trim() !== "" && error;
+    return (
+      <div>
+        <label className="block text-sm font-medium mb-1">{label}</label>
+        <Input
+          value={text[axis]}
+          onChange={(e) =>
+            setText((current) => ({ ...current, [axis]: e.target.value }))
+          }
+          onPaste={handlePaste}
+          placeholder={placeholder}
+          className={showError ? "border-red-500" : undefined}
+          disabled={disabled}
+        />
+        {showError && <p className="text-xs text-red-600 mt-1">{error}</p>}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-2">
+        {field("latitude", "Latitude", "48.8566 or 48°51'24\"N")}
+        {field("longitude", "Longitude", "2.3522 or 2°21'07\"E")}
+      </div>
+      <div>
+        <label className="block text-sm font-medium mb-1">
+          Name (optional)
+        </label>
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Looked up from the coordinates when left empty"
+          disabled={disabled}
+        />
+      </div>
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-muted-foreground">
+          Paste "lat, lng" into either field to fill both.
+        </p>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleAdd}
+          disabled={disabled || busy || !isValid}
+        >
+          {busy ? "Looking up..." : "Add coordinates"}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default CoordinateEntry;
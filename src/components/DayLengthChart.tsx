@@ -0,0 +1,327 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  Brush,
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ReferenceArea,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { ZoomOut } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { displayTimeZone, secondsSinceMidnight } from "@/lib/timezone";
+
+export interface DayLengthRow {
+  location: string;
+  longitude: number;
+  date: string;
+  day_length: number;
+  sunrise: string | null;
+  sunset: string | null;
+  solar_noon: string | null;
+  timezone?: string | null;
+}
+
+type Series = "day_length" | "sunrise" | "sunset" | "solar_noon";
+
+interface DayLengthChartProps {
+  data: DayLengthRow[];
+}
+
+// Locations are told apart by colour and series by dash pattern
+const SERIES: { value: Series; label: string; dash?: string }[] = [
+  { value: "day_length", label: "Day length" },
+  { value: "sunrise", label: "Sunrise", dash: "6 3" },
+  { value: "sunset", label: "Sunset", dash: "2 2" },
+  { value: "solar_noon", label: "Solar noon", dash: "8 3 2 3" },
+];
+
+const COLORS = [
+  "#0088FE",
+  "#00C49F",
+  "#FFBB28",
+  "#FF8042",
+  "#8884D8",
+  "#e11d48",
+  "#0d9488",
+  "#a16207",
+  "#7c3aed",
+  "#475569",
+];
+
+// Hours as "13:05", for both durations and times of day
+const formatHours = (hours: number) => {
+  const minutes = Math.round(hours * 60);
+  return `${Math.floor(minutes / 60)}:${String(minutes % 60).padStart(2, "0")}`;
+};
+
+// Hours in the series' own unit: a duration for day length, otherwise the
+// clock time in the location's timezone
+const seriesValue = (row: DayLengthRow, series: Series) => {
+  if (series === "day_length") return row.day_length / 3600;
+  const value = row[series];
+  return value
+    ? secondsSinceMidnight(value, displayTimeZone("location", row)) / 3600
+    : null;
+};
+
+// Dots and spaces in location names would break the config's CSS variables
+const seriesKey = (locationIndex: number, value: Series) =>
+  `l${locationIndex}_${value}`;
+
+const average = (values: number[]) =>
+  values.length
+    ? values.reduce((sum, value) => sum + value, 0) / values.length
+    : undefined;
+
+// Line chart of day length and sun times over dates, one line per location.
+// Drag across the plot or use the brush to zoom into a date range.
+const DayLengthChart = ({ data }: DayLengthChartProps) => {
+  const [series, setSeries] = useState<Series[]>(["day_length"]);
+  const [range, setRange] = useState<[number, number] | null>(null);
+  // Dates under the pointer while drag-selecting a range to zoom into
+  const [selection, setSelection] = useState<{
+    start: string;
+    end: string;
+  } | null>(null);
+
+  const locations = useMemo(
+    () => Array.from(new Set(data.map((item) => item.location))).sort(),
+    [data]
+  );
+
+  // One point per date; sources reporting the same location and date are
+  // averaged so raw rows don't zigzag between providers
+  const chartData = useMemo(() => {
+    const groups: Record<string, Record<string, number[]>> = {};
+
+    data.forEach((item) => {
+      const locationIndex = locations.indexOf(item.location);
+      if (!groups[item.date]) groups[item.date] = {};
+      const point = groups[item.date];
+      SERIES.forEach(({ value }) => {
+        const hours = seriesValue(item, value);
+        if (hours === null) return;
+        const key = seriesKey(locationIndex, value);
+        if (!point[key]) point[key] = [];
+        point[key].push(hours);
+      });
+    });
+
+    return Object.keys(groups)
+      .sort()
+      .map((date) => ({
+        date,
+        ...Object.fromEntries(
+          Object.entries(groups[date]).map(([key, values]) => [
+            key,
+            average(values),
+          ])
+        ),
+      }));
+  }, [data, locations]);
+
+  useEffect(() => setRange(null), [chartData]);
+
+  const chartConfig = useMemo(
+    () =>
+      Object.fromEntries(
+        locations.flatMap((location, i) =>
+          SERIES.map(({ value, label }) => [
+            seriesKey(i, value),
+            {
+              label: series.length > 1 ? `${location} · ${label}` : location,
+              color: COLORS[i % COLORS.length],
+            },
+          ])
+        )
+      ) as ChartConfig,
+    [locations, series.length]
+  );
+
+  const showsTimes = series.some((value) => value !== "day_length");
+
+  const handleZoomEnd = () => {
+    if (selection && selection.start !== selection.end) {
+      const indices = [selection.start, selection.end]
+        .map((date) => chartData.findIndex((point) => point.date === date))
+        .sort((a, b) => a - b);
+      setRange([indices[0], indices[1]]);
+    }
+    setSelection(null);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-4 space-y-0">
+        <CardTitle>Day Length over Time</CardTitle>
+        <div className="flex flex-wrap items-center gap-2">
+          <ToggleGroup
+            type="multiple"
+            variant="outline"
+            size="sm"
+            value={series}
+            onValueChange={(value: Series[]) =>
+              value.length && setSeries(value)
+            }
+          >
+            {SERIES.map(({ value, label, dash }) => (
+              <ToggleGroupItem key={value} value={value} className="gap-1.5">
+                <svg width="16" height="2" aria-hidden>
+                  <line
+                    x1={0}
+                    y1={1}
+                    x2={16}
+                    y2={1}
+                    stroke="currentColor"
+                    strokeWidth={2}
+                    strokeDasharray={dash}
+                  />
+                </svg>
+                {label}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setRange(null)}
+            disabled={!range}
+          >
+            <ZoomOut className="h-4 w-4 mr-1" />
+            Reset zoom
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <ChartContainer
+          config={chartConfig}
+          className="aspect-auto h-96 w-full select-none"
+        >
+          <LineChart
+            data={chartData}
+            margin={{ top: 10, right: 10, bottom: 0, left: 10 }}
+            onMouseDown={(event) =>
+              event?.activeLabel &&
+              setSelection({
+                start: event.activeLabel,
+                end: event.activeLabel,
+              })
+            }
+            onMouseMove={(event) =>
+              selection &&
+              event?.activeLabel &&
+              setSelection({ ...selection, end: event.activeLabel })
+            }
+            onMouseUp={handleZoomEnd}
+            onMouseLeave={() => setSelection(null)}
+          >
+            <CartesianGrid strokeDasharray="3 3" vertical={false} />
+            <XAxis dataKey="date" minTickGap={24} />
+            <YAxis
+              yAxisId="duration"
+              hide={!series.includes("day_length")}
+              domain={["auto", "auto"]}
+              tickFormatter={formatHours}
+              label={{
+                value: "Day length (h)",
+                angle: -90,
+                position: "insideLeft",
+              }}
+            />
+            <YAxis
+              yAxisId="time"
+              orientation="right"
+              hide={!showsTimes}
+              domain={["auto", "auto"]}
+              tickFormatter={formatHours}
+              label={{
+                value: "Local time",
+                angle: 90,
+                position: "insideRight",
+              }}
+            />
+            <ChartTooltip
+              content={
+                <ChartTooltipContent
+                  formatter={(value, name, item) => (
+                    <>
+                      <div
+                        className="h-2.5 w-2.5 shrink-0 rounded-[2px]"
+                        style={{ backgroundColor: item.color }}
+                      />
+                      <div className="flex flex-1 justify-between gap-4 leading-none">
+                        <span className="text-muted-foreground">
+                          {chartConfig[String(item.dataKey)]?.label ?? name}
+                        </span>
+                        <span className="font-mono font-medium tabular-nums text-foreground">
+                          {formatHours(Number(value))}
+                        </span>
+                      </div>
+                    </>
+                  )}
+                />
+              }
+            />
+            <Legend
+              payload={locations.map((location, i) => ({
+                value: location,
+                type: "line",
+                color: COLORS[i % COLORS.length],
+              }))}
+            />
+            {locations.flatMap((_, i) =>
+              SERIES.filter(({ value }) => series.includes(value)).map(
+                ({ value, dash }) => (
+                  <Line
+                    key={seriesKey(i, value)}
+                    yAxisId={value === "day_length" ? "duration" : "time"}
+                    dataKey={seriesKey(i, value)}
+                    stroke={`var(--color-${seriesKey(i, value)})`}
+                    strokeDasharray={dash}
+                    strokeWidth={2}
+                    dot={chartData.length <= 31}
+                    isAnimationActive={false}
+                  />
+                )
+              )
+            )}
+            {selection && (
+              <ReferenceArea
+                yAxisId={showsTimes ? "time" : "duration"}
+                x1={selection.start}
+                x2={selection.end}
+                strokeOpacity={0.3}
+                fillOpacity={0.15}
+              />
+            )}
+            {chartData.length > 1 && (
+              <Brush
+                dataKey="date"
+                height={24}
+                travellerWidth={8}
+                startIndex={range?.[0] ?? 0}
+                endIndex={range?.[1] ?? chartData.length - 1}
+                onChange={({ startIndex, endIndex }) =>
+                  setRange([startIndex, endIndex])
+                }
+              />
+            )}
+          </LineChart>
+        </ChartContainer>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DayLengthChart;
@@ -0,0 +1,441 @@
+import { useId, useMemo, useState } from "react";
+import {
+  Area,
+  CartesianGrid,
+  ComposedChart,
+  Line,
+  ReferenceLine,
+  TooltipProps,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { eachDayOfInterval, format, parseISO } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+} from "@/components/ui/chart";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { calculateSolarTimes } from "@/lib/solar";
+import {
+  displayTimeZone,
+  secondsSinceMidnight,
+  utcOffsetMinutes,
+} from "@/lib/timezone";
+
+export interface DaylightBandRow {
+  location: string;
+  latitude: number;
+  longitude: number;
+  date: string;
+  day_length: number;
+  sunrise: string | null;
+  sunset: string | null;
+  solar_noon: string | null;
+  timezone?: string | null;
+}
+
+interface DaylightBandChartProps {
+  data: DaylightBandRow[];
+}
+
+// Sun times of one location on one date, in hours since local midnight
+interface DayTimes {
+  // Sunrise to sunset, [0, 24] under the midnight sun, null in polar night
+  band: [number, number] | null;
+  noon: number | null;
+  computed: boolean;
+}
+
+interface DstShift {
+  date: string;
+  locationIndex: number;
+  // Minutes the clocks moved
+  change: number;
+}
+
+const COLORS = ["#f59e0b", "#0088FE", "#00C49F", "#FF8042", "#8884D8"];
+
+const HOUR_TICKS = [0, 3, 6, 9, 12, 15, 18, 21, 24];
+
+const formatHours = (hours: number) => {
+  const minutes = Math.round(hours * 60);
+  return `${Math.floor(minutes / 60)}:${String(minutes % 60).padStart(2, "0")}`;
+};
+
+const average = (values: number[]) =>
+  values.length
+    ? values.reduce((sum, value) => sum + value, 0) / values.length
+    : null;
+
+const hoursIn = (value: string | Date, timeZone: string | undefined) =>
+  secondsSinceMidnight(value, timeZone) / 3600;
+
+// A sunset after local midnight still belongs to the same band
+const toBand = (
+  sunrise: string | Date | null,
+  sunset: string | Date | null,
+  dayLength: number,
+  timeZone: string | undefined
+): [number, number] | null => {
+  if (!sunrise || !sunset) return dayLength >= 86400 ? [0, 24] : null;
+  const rise = hoursIn(sunrise, timeZone);
+  const set = hoursIn(sunset, timeZone);
+  return [rise, set < rise ? set + 24 : set];
+};
+
+// Sources reporting the same date are averaged
+const storedTimes = (
+  rows: DaylightBandRow[],
+  timeZone: string | undefined
+): DayTimes => {
+  const bands = rows
+    .map((row) => toBand(row.sunrise, row.sunset, row.day_length, timeZone))
+    .filter((band) => band !== null);
+  const noon = average(
+    rows
+      .filter((row) => row.solar_noon)
+      .map((row) => hoursIn(row.solar_noon, timeZone))
+  );
+
+  return {
+    band: bands.length
+      ? [
+          average(bands.map((band) => band[0])),
+          average(bands.map((band) => band[1])),
+        ]
+      : null,
+    noon,
+    computed: false,
+  };
+};
+
+const computedTimes = (
+  latitude: number,
+  longitude: number,
+  date: string,
+  timeZone: string | undefined
+): DayTimes => {
+  const { sunrise, sunset, solarNoon, dayLength } = calculateSolarTimes(
+    latitude,
+    longitude,
+    date
+  );
+  return {
+    band: toBand(sunrise, sunset, dayLength, timeZone),
+    noon: hoursIn(solarNoon, timeZone),
+    computed: true,
+  };
+};
+
+// The classic daylight chart: sunrise to sunset in local clock time over a
+// year, with solar noon and the days the clocks change. Dates without a
+// stored row are computed and hatched.
+const DaylightBandChart = ({ data }: DaylightBandChartProps) => {
+  const patternPrefix = `daylight-${useId().replace(/:/g, "")}`;
+
+  const locations = useMemo(
+    () => Array.from(new Set(data.map((item) => item.location))).sort(),
+    [data]
+  );
+  const [selectedLocations, setSelectedLocations] = useState<string[]>([]);
+  const shownLocations = selectedLocations.filter((location) =>
+    locations.includes(location)
+  );
+  if (!shownLocations.length && locations.length) {
+    shownLocations.push(locations[0]);
+  }
+
+  const years = useMemo(() => {
+    const found = new Set(data.map((item) => item.date.slice(0, 4)));
+    found.add(String(new Date().getFullYear()));
+    return Array.from(found).sort().reverse();
+  }, [data]);
+  const [selectedYear, setSelectedYear] = useState<string>("");
+  // The latest year with data unless one was picked
+  const latestYear = data.reduce(
+    (latest, item) => (item.date > latest ? item.date : latest),
+    ""
+  );
+  const year = years.includes(selectedYear)
+    ? selectedYear
+    : latestYear.slice(0, 4) || years[0];
+
+  const dates = useMemo(
+    () =>
+      eachDayOfInterval({
+        start: parseISO(`${year}-01-01`),
+        end: parseISO(`${year}-12-31`),
+      }).map((date) => format(date, "yyyy-MM-dd")),
+    [year]
+  );
+
+  const locationKey = shownLocations.join("\n");
+
+  const { chartData, dstShifts } = useMemo(() => {
+    const points = dates.map((date) => ({ date } as Record<string, unknown>));
+    const shifts: DstShift[] = [];
+
+    locationKey.split("\n").forEach((location) => {
+      const index = locations.indexOf(location);
+      const rows = data.filter((item) => item.location === location);
+      if (!rows.length) return;
+
+      const { latitude, longitude } = rows[0];
+      const timeZone = displayTimeZone("location", rows[0]);
+      const byDate = rows.reduce((groups, row) => {
+        if (!groups[row.date]) groups[row.date] = [];
+        groups[row.date].push(row);
+        return groups;
+      }, {} as Record<string, DaylightBandRow[]>);
+
+      const days = dates.map((date) =>
+        byDate[date]
+          ? storedTimes(byDate[date], timeZone)
+          : computedTimes(latitude, longitude, date, timeZone)
+      );
+
+      // Computed stretches include their stored neighbours so the two
+      // styles meet instead of leaving a gap
+      days.forEach((day, i) => {
+        const point = points[i];
+        const touchesComputed =
+          day.computed || days[i - 1]?.computed || days[i + 1]?.computed;
+
+        point[`l${index}`] = day;
+        if (!day.computed) {
+          point[`l${index}_band`] = day.band;
+          point[`l${index}_noon`] = day.noon;
+        }
+        if (touchesComputed) {
+          point[`l${index}_computedBand`] = day.band;
+          point[`l${index}_computedNoon`] = day.noon;
+        }
+      });
+
+      let previousOffset: number | null = null;
+      dates.forEach((date) => {
+        const offset = utcOffsetMinutes(`${date}T12:00:00Z`, timeZone);
+        if (previousOffset !== null && offset !== previousOffset) {
+          shifts.push({
+            date,
+            locationIndex: index,
+            change: offset - previousOffset,
+          });
+        }
+        previousOffset = offset;
+      });
+    });
+
+    return { chartData: points, dstShifts: shifts };
+  }, [data, dates, locations, locationKey]);
+
+  const shownIndices = shownLocations.map((location) =>
+    locations.indexOf(location)
+  );
+
+  const chartConfig = Object.fromEntries(
+    shownIndices.map((index) => [
+      `l${index}`,
+      { label: locations[index], color: COLORS[index % COLORS.length] },
+    ])
+  ) as ChartConfig;
+
+  // Month starts, so the axis isn't crowded by 365 dates
+  const monthTicks = dates.filter((date) => date.endsWith("-01"));
+
+  const renderTooltip = ({ active, payload }: TooltipProps<number, string>) => {
+    if (!active || !payload?.length) return null;
+    const point = payload[0].payload as Record<string, unknown>;
+
+    return (
+      <div className="grid min-w-[10rem] gap-1.5 rounded-lg border border-border/50 bg-background px-2.5 py-1.5 text-xs shadow-xl">
+        <div className="font-medium">
+          {format(parseISO(point.date as string), "PPP")}
+        </div>
+        {shownIndices.map((index) => {
+          const day = point[`l${index}`] as DayTimes | undefined;
+          if (!day) return null;
+          return (
+            <div key={index} className="flex items-center gap-2">
+              <div
+                className="h-2.5 w-2.5 shrink-0 rounded-[2px]"
+                style={{ backgroundColor: COLORS[index % COLORS.length] }}
+              />
+              <span className="text-muted-foreground">{locations[index]}</span>
+              <span className="ml-auto font-mono tabular-nums">
+                {day.band
+                  ? `${formatHours(day.band[0])}–${formatHours(day.band[1])}`
+                  : "no sunrise"}
+                {day.computed && " (computed)"}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-4 space-y-0">
+        <CardTitle>Sunrise and Sunset through the Year</CardTitle>
+        <Select value={year} onValueChange={setSelectedYear}>
+          <SelectTrigger className="w-28">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {years.map((item) => (
+              <SelectItem key={item} value={item}>
+                {item}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        <ToggleGroup
+          type="multiple"
+          variant="outline"
+          size="sm"
+          className="flex-wrap justify-start mb-4"
+          value={shownLocations}
+          onValueChange={(value: string[]) =>
+            value.length && setSelectedLocations(value)
+          }
+        >
+          {locations.map((location) => (
+            <ToggleGroupItem key={location} value={location}>
+              {location}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+
+        <ChartContainer
+          config={chartConfig}
+          className="aspect-auto h-96 w-full"
+        >
+          <ComposedChart
+            data={chartData}
+            margin={{ top: 16, right: 10, bottom: 0, left: 10 }}
+          >
+            <defs>
+              {shownIndices.map((index) => (
+                <pattern
+                  key={index}
+                  id={`${patternPrefix}-${index}`}
+                  width={6}
+                  height={6}
+                  patternUnits="userSpaceOnUse"
+                  patternTransform="rotate(45)"
+                >
+                  <line
+                    x1={0}
+                    y1={0}
+                    x2={0}
+                    y2={6}
+                    stroke={COLORS[index % COLORS.length]}
+                    strokeWidth={2}
+                    strokeOpacity={0.6}
+                  />
+                </pattern>
+              ))}
+            </defs>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} />
+            <XAxis
+              dataKey="date"
+              ticks={monthTicks}
+              tickFormatter={(date) => format(parseISO(date), "MMM")}
+            />
+            <YAxis
+              domain={[0, 24]}
+              ticks={HOUR_TICKS}
+              tickFormatter={formatHours}
+              label={{
+                value: "Local time",
+                angle: -90,
+                position: "insideLeft",
+              }}
+            />
+            <ChartTooltip content={renderTooltip} />
+            {shownIndices.flatMap((index) => [
+              <Area
+                key={`${index}-band`}
+                dataKey={`l${index}_band`}
+                stroke={`var(--color-l${index})`}
+                fill={`var(--color-l${index})`}
+                fillOpacity={0.25}
+                isAnimationActive={false}
+              />,
+              <Area
+                key={`${index}-computedBand`}
+                dataKey={`l${index}_computedBand`}
+                stroke={`var(--color-l${index})`}
+                strokeDasharray="4 3"
+                fill={`url(#${patternPrefix}-${index})`}
+                isAnimationActive={false}
+              />,
+              <Line
+                key={`${index}-noon`}
+                dataKey={`l${index}_noon`}
+                stroke={`var(--color-l${index})`}
+                strokeWidth={2}
+                dot={false}
+                isAnimationActive={false}
+              />,
+              <Line
+                key={`${index}-computedNoon`}
+                dataKey={`l${index}_computedNoon`}
+                stroke={`var(--color-l${index})`}
+                strokeWidth={2}
+                strokeDasharray="4 3"
+                dot={false}
+                isAnimationActive={false}
+              />,
+            ])}
+            {dstShifts.map((shift) => (
+              <ReferenceLine
+                key={`${shift.locationIndex}-${shift.date}`}
+                x={shift.date}
+                stroke={COLORS[shift.locationIndex % COLORS.length]}
+                strokeDasharray="2 2"
+                label={{
+                  value: `${shift.change > 0 ? "+" : "−"}${formatHours(
+                    Math.abs(shift.change) / 60
+                  )}`,
+                  position: "top",
+                  fontSize: 10,
+                }}
+              />
+            ))}
+          </ComposedChart>
+        </ChartContainer>
+
+        <div className="flex flex-wrap items-center gap-4 mt-2 text-xs text-muted-foreground">
+          {shownIndices.map((index) => (
+            <span key={index} className="flex items-center gap-1">
+              <span
+                className="inline-block h-3 w-3 rounded-sm"
+                style={{ backgroundColor: COLORS[index % COLORS.length] }}
+              />
+              {locations[index]}
+            </span>
+          ))}
+          <span>Band: sunrise to sunset · Line: solar noon</span>
+          <span>Dashed and hatched: computed, no stored row</span>
+          <span>Dotted rules: clocks change</span>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DaylightBandChart;
@@ -0,0 +1,97 @@
+import { useMemo } from "react";
+import {
+  DAYLIGHT_PHASES,
+  DaylightPhase,
+  phaseForAltitude,
+  terminatorPoints,
+} from "@/lib/daylight";
+import { getSubsolarPoint, solarAltitudeAt } from "@/lib/solar";
+import { MAP_HEIGHT, MAP_WIDTH, project } from "@/lib/worldMap";
+
+interface DaylightLayerProps {
+  time: Date;
+  zoom: number;
+}
+
+// Darkness over each phase, from daylight (clear) to night
+const SHADE_OPACITY: Record<DaylightPhase, number> = {
+  day: 0,
+  civil: 0.18,
+  nautical: 0.32,
+  astronomical: 0.45,
+  night: 0.55,
+};
+const SHADE_RGB = [15, 23, 42];
+
+// One pixel per degree; the browser smooths it when scaled up
+const renderShade = (time: Date) => {
+  const canvas = document.createElement("canvas");
+  canvas.width = MAP_WIDTH;
+  canvas.height = MAP_HEIGHT;
+  const context = canvas.getContext("2d");
+  const image = context.createImageData(MAP_WIDTH, MAP_HEIGHT);
+  const altitudeAt = solarAltitudeAt(time);
+
+  for (let y = 0; y < MAP_HEIGHT; y++) {
+    for (let x = 0; x < MAP_WIDTH; x++) {
+      const phase = phaseForAltitude(altitudeAt(89.5 - y, x - 179.5));
+      const i = (y * MAP_WIDTH + x) * 4;
+      image.data[i] = SHADE_RGB[0];
+      image.data[i + 1] = SHADE_RGB[1];
+      image.data[i + 2] = SHADE_RGB[2];
+      image.data[i + 3] = Math.round(SHADE_OPACITY[phase] * 255);
+    }
+  }
+
+  context.putImageData(image, 0, 0);
+  return canvas.toDataURL();
+};
+
+// Night and twilight shading, the terminator and the subsolar point at
+// `time`, drawn inside a WorldMap
+const DaylightLayer = ({ time, zoom }: DaylightLayerProps) => {
+  const shade = useMemo(() => renderShade(time), [time]);
+
+  const terminator = useMemo(
+    () =>
+      terminatorPoints(time)
+        .map(({ latitude, longitude }, i) => {
+          const { x, y } = project(latitude, longitude);
+          return `${i === 0 ? "M" : "L"}${x.toFixed(2)},${y.toFixed(2)}`;
+        })
+        .join(""),
+    [time]
+  );
+
+  const subsolar = getSubsolarPoint(time);
+  const sun = project(subsolar.latitude, subsolar.longitude);
+
+  return (
+    <g pointerEvents="none">
+      <image
+        href={shade}
+        x={0}
+        y={0}
+        width={MAP_WIDTH}
+        height={MAP_HEIGHT}
+        preserveAspectRatio="none"
+      />
+      <path
+        d={terminator}
+        fill="none"
+        stroke="#f59e0b"
+        strokeWidth={0.8 / zoom}
+      />
+      <circle
+        cx={sun.x}
+        cy={sun.y}
+        r={2.5 / zoom}
+        fill={DAYLIGHT_PHASES[0].color}
+        stroke="#f59e0b"
+        strokeWidth={0.6 / zoom}
+      />
+    </g>
+  );
+};
+
+export default DaylightLayer;
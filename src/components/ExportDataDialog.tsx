@@ -0,0 +1,219 @@
+import { useState } from "react";
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { toast } from "@/components/ui/use-toast";
+import {
+  buildExport,
+  EXPORT_COLUMNS,
+  EXPORT_FORMATS,
+  ExportFormat,
+  ExportRow,
+  ExportTimeMode,
+  exportFileName,
+} from "@/lib/exportData";
+import {
+  AstronomicalDataQuery,
+  fetchAllAstronomicalData,
+} from "@/services/queryAstronomicalData";
+
+interface ExportDataDialogProps {
+  // The table's filters and sort; every matching row is exported, not
+  // just the current page
+  query: AstronomicalDataQuery;
+  rowCount: number;
+}
+
+const DEFAULT_COLUMNS = EXPORT_COLUMNS.filter((column) => column.selected).map(
+  (column) => column.key
+);
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const ExportDataDialog = ({ query, rowCount }: ExportDataDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [format, setFormat] = useState<ExportFormat>("csv");
+  const [timeMode, setTimeMode] = useState<ExportTimeMode>("utc");
+  const [columns, setColumns] = useState<string[]>(DEFAULT_COLUMNS);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const toggleColumn = (key: string, checked: boolean) =>
+    setColumns((current) =>
+      checked ? [...current, key] : current.filter((item) => item !== key)
+    );
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const { data, error } = await fetchAllAstronomicalData(query);
+      if (error) throw error;
+
+      // Columns keep their canonical order whatever order they were ticked in
+      const blob = await buildExport(
+        data as ExportRow[],
+        EXPORT_COLUMNS.filter((column) => columns.includes(column.key)),
+        format,
+        timeMode
+      );
+      downloadBlob(blob, exportFileName(format));
+      setOpen(false);
+    } catch (error) {
+      console.error("Error exporting data:", error);
+      toast({
+        title: "Export failed",
+        description: "The data could not be exported. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" disabled={rowCount === 0}>
+          <Download className="h-4 w-4 mr-1" />
+          Export
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Export Data</DialogTitle>
+          <DialogDescription>
+            Downloads all {rowCount} rows matching the current filters, in the
+            table's sort order.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium mb-2">Format</label>
+            <RadioGroup
+              value={format}
+              onValueChange={(value) => setFormat(value as ExportFormat)}
+            >
+              {EXPORT_FORMATS.map((item) => (
+                <div key={item.value} className="flex items-center gap-2">
+                  <RadioGroupItem
+                    value={item.value}
+                    id={`export-format-${item.value}`}
+                  />
+                  <label
+                    htmlFor={`export-format-${item.value}`}
+                    className="text-sm cursor-pointer"
+                  >
+                    {item.label}
+                  </label>
+                </div>
+              ))}
+            </RadioGroup>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-2">Times</label>
+            <RadioGroup
+              value={timeMode}
+              onValueChange={(value) => setTimeMode(value as ExportTimeMode)}
+            >
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="utc" id="export-time-utc" />
+                <label
+                  htmlFor="export-time-utc"
+                  className="text-sm cursor-pointer"
+                >
+                  UTC
+                </label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="local" id="export-time-local" />
+                <label
+                  htmlFor="export-time-local"
+                  className="text-sm cursor-pointer"
+                >
+                  Location time, with its UTC offset
+                </label>
+              </div>
+            </RadioGroup>
+          </div>
+        </div>
+
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <label className="text-sm font-medium">Columns</label>
+            <div className="flex gap-2">
+              <Button
+                variant="link"
+                size="sm"
+                className="h-auto p-0"
+                onClick={() =>
+                  setColumns(EXPORT_COLUMNS.map((column) => column.key))
+                }
+              >
+                All
+              </Button>
+              <Button
+                variant="link"
+                size="sm"
+                className="h-auto p-0"
+                onClick={() => setColumns(DEFAULT_COLUMNS)}
+              >
+                Default
+              </Button>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+            {EXPORT_COLUMNS.map((column) => (
+              <div key={column.key} className="flex items-center gap-2">
+                <Checkbox
+                  id={`export-column-${column.key}`}
+                  checked={columns.includes(column.key)}
+                  onCheckedChange={(checked) =>
+                    toggleColumn(column.key, checked === true)
+                  }
+                />
+                <label
+                  htmlFor={`export-column-${column.key}`}
+                  className="text-sm leading-none cursor-pointer"
+                >
+                  {column.label}
+                </label>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleExport}
+            disabled={isExporting || columns.length === 0}
+          >
+            {isExporting ? "Exporting..." : "Download"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ExportDataDialog;
@@ -1,5 +1,5 @@
 
-import { Home, BarChart2, LightbulbIcon } from "lucide-react";
+import { Home, BarChart2, LightbulbIcon, MapPin, Globe, Upload } from "lucide-react";
 import { Link, useLocation } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 
@@ -37,6 +37,16 @@ const Header = () => {
               <span className="hidden sm:inline">Visualize</span>
             </Link>
           </Button>
+          <Button 
+            variant="ghost" 
+            className={isActive("/map")}
+            asChild
+          >
+            <Link to="/map" className="flex items-center gap-1">
+              <Globe className="h-4 w-4" />
+              <span className="hidden sm:inline">Map</span>
+            </Link>
+          </Button>
           <Button 
             variant="ghost" 
             className={isActive("/conclusions")}
@@ -47,6 +57,26 @@ const Header = () => {
               <span className="hidden sm:inline">Conclusions</span>
             </Link>
           </Button>
+          <Button 
+            variant="ghost" 
+            className={isActive("/places")}
+            asChild
+          >
+            <Link to="/places" className="flex items-center gap-1">
+              <MapPin className="h-4 w-4" />
+              <span className="hidden sm:inline">Places</span>
+            </Link>
+          </Button>
+          <Button 
+            variant="ghost" 
+            className={isActive("/import")}
+            asChild
+          >
+            <Link to="/import" className="flex items-center gap-1">
+              <Upload className="h-4 w-4" />
+              <span className="hidden sm:inline">Import</span>
+            </Link>
+          </Button>
         </nav>
       </div>
     </header>
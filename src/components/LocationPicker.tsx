@@ -0,0 +1,443 @@
+import { ChangeEvent, useEffect, useRef, useState } from "react";
+import { Loader2, MapPin, Upload, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "@/components/ui/use-toast";
+import CoordinateEntry, {
+  CoordinateEntryValue,
+} from "@/components/CoordinateEntry";
+import { Coordinates, parseCoordinatePair } from "@/lib/coordinates";
+import { parseLocationList } from "@/lib/locationList";
+import {
+  coordinateCandidate,
+  distinctLabels,
+  GeocodeCandidate,
+  reverseGeocode,
+  searchLocations,
+} from "@/services/geocoding";
+
+export interface PickedLocation {
+  // What the user typed or pasted
+  query: string;
+  candidate: GeocodeCandidate;
+  // Alternatives the user can switch to
+  candidates: GeocodeCandidate[];
+  // Shown next to typed coordinates, e.g. "near Berlin, Germany"; never
+  // saved, since different sites in one city would share it
+  hint?: string;
+}
+
+interface LocationPickerProps {
+  value: PickedLocation[];
+  onChange: (locations: PickedLocation[]) => void;
+  disabled?: boolean;
+  // Opens coordinate entry filled in with these
+  initialCoordinates?: Coordinates | null;
+}
+
+// Wait for the user to pause typing before searching
+const SEARCH_DEBOUNCE_MS = 500;
+const MIN_QUERY_LENGTH = 2;
+
+// Typed coordinates are saved under their coordinate label, with the
+// place found there as a hint
+const resolveCoordinates = async (
+  query: string,
+  latitude: number,
+  longitude: number
+): Promise<PickedLocation> => {
+  const coordinates = coordinateCandidate(latitude, longitude);
+  let named: GeocodeCandidate | null = null;
+  try {
+    named = await reverseGeocode(latitude, longitude);
+  } catch (error) {
+    console.error("Reverse geocoding error:", error);
+  }
+
+  return {
+    query,
+    candidate: coordinates,
+    candidates: [],
+    hint: named ? `near ${named.label}` : undefined,
+  };
+};
+
+const candidateKey = (candidate: GeocodeCandidate) =>
+  `${candidate.label}|${candidate.latitude},${candidate.longitude}`;
+
+// Places are told apart by where they are; names can repeat
+const positionKey = (candidate: GeocodeCandidate) =>
+  `${candidate.latitude.toFixed(4)},${candidate.longitude.toFixed(4)}`;
+
+const LocationPicker = ({
+  value,
+  onChange,
+  disabled,
+  initialCoordinates,
+}: LocationPickerProps) => {
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<GeocodeCandidate[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [bulkText, setBulkText] = useState("");
+  const [isResolving, setIsResolving] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (trimmed.length < MIN_QUERY_LENGTH) {
+      setResults([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        setResults(
+          await searchLocations(trimmed, undefined, controller.signal)
+        );
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.error("Geocoding error:", error);
+          setResults([]);
+        }
+      } finally {
+        if (!controller.signal.aborted) setIsSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [query]);
+
+  // Labels shown for the picked places, and stored as their names
+  const labels = distinctLabels(value.map((item) => item.candidate));
+
+  const addLocations = (locations: PickedLocation[]) => {
+    const positions = new Set(value.map((item) => positionKey(item.candidate)));
+    onChange([
+      ...value,
+      ...locations.filter((item) => {
+        const position = positionKey(item.candidate);
+        if (positions.has(position)) return false;
+        positions.add(position);
+        return true;
+      }),
+    ]);
+  };
+
+  const handleSelect = (candidate: GeocodeCandidate) => {
+    addLocations([{ query, candidate, candidates: [] }]);
+    setQuery("");
+    setResults([]);
+  };
+
+  const handleFileUpload = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      setBulkText(await file.text());
+    } catch (error) {
+      console.error("Error reading location file:", error);
+      toast({
+        title: "Error",
+        description: `Could not read ${file.name}`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const addCoordinates = async ({
+    name,
+    latitude,
+    longitude,
+  }: CoordinateEntryValue) => {
+    if (name) {
+      addLocations([
+        {
+          query: name,
+          candidate: coordinateCandidate(latitude, longitude, name),
+          candidates: [],
+        },
+      ]);
+      return;
+    }
+
+    setIsResolving(true);
+    try {
+      addLocations([
+        await resolveCoordinates(
+          `${latitude}, ${longitude}`,
+          latitude,
+          longitude
+        ),
+      ]);
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  // Looks up every pasted name; the best match is picked and the others
+  // are offered as alternatives. Lines that are only coordinates are
+  // reverse geocoded.
+  const resolveBulkList = async () => {
+    setIsResolving(true);
+    const resolved: PickedLocation[] = [];
+    const notFound: string[] = [];
+
+    try {
+      for (const entry of parseLocationList(bulkText)) {
+        if (entry.latitude !== undefined && entry.longitude !== undefined) {
+          resolved.push({
+            query: entry.name,
+            candidate: coordinateCandidate(
+              entry.latitude,
+              entry.longitude,
+              entry.name
+            ),
+            candidates: [],
+          });
+          continue;
+        }
+
+        const coordinates = parseCoordinatePair(entry.name).value;
+        if (coordinates) {
+          resolved.push(
+            await resolveCoordinates(
+              entry.name,
+              coordinates.latitude,
+              coordinates.longitude
+            )
+          );
+          continue;
+        }
+
+        const candidates = await searchLocations(entry.name);
+        if (candidates.length > 0) {
+          resolved.push({
+            query: entry.name,
+            candidate: candidates[0],
+            candidates,
+          });
+        } else {
+          notFound.push(entry.name);
+        }
+      }
+    } finally {
+      setIsResolving(false);
+    }
+
+    addLocations(resolved);
+    setBulkText("");
+
+    if (notFound.length > 0) {
+      toast({
+        title: "Warning",
+        description: `Could not find: ${notFound.join(", ")}`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const chooseCandidate = (index: number, key: string) => {
+    onChange(
+      value.map((item, i) =>
+        i === index
+          ? {
+              ...item,
+              candidate: item.candidates.find(
+                (candidate) => candidateKey(candidate) === key
+              ),
+            }
+          : item
+      )
+    );
+  };
+
+  const removeLocation = (index: number) => {
+    onChange(value.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="block text-sm font-medium mb-1">Locations</label>
+        <Tabs defaultValue={initialCoordinates ? "coordinates" : "search"}>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="search">Place name</TabsTrigger>
+            <TabsTrigger value="coordinates">Coordinates</TabsTrigger>
+          </TabsList>
+          <TabsContent value="search">
+            <Command shouldFilter={false} className="border">
+              <CommandInput
+                placeholder="Search for a place (e.g., Paris)"
+                value={query}
+                onValueChange={setQuery}
+                disabled={disabled}
+              />
+              {query.trim().length >= MIN_QUERY_LENGTH && (
+                <CommandList>
+                  {isSearching ? (
+                    <div className="flex items-center gap-2 p-3 text-sm text-muted-foreground">
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                      Searching...
+                    </div>
+                  ) : (
+                    <CommandEmpty>No places found.</CommandEmpty>
+                  )}
+                  {!isSearching && results.length > 0 && (
+                    <CommandGroup>
+                      {results.map((candidate) => (
+                        <CommandItem
+                          key={candidateKey(candidate)}
+                          value={candidateKey(candidate)}
+                          onSelect={() => handleSelect(candidate)}
+                        >
+                          <MapPin className="mr-2 h-4 w-4 shrink-0" />
+                          <div>
+                            <div>{candidate.label}</div>
+                            <div className="text-xs text-muted-foreground">
+                              {candidate.type} · {candidate.displayName}
+                            </div>
+                          </div>
+                        </CommandItem>
+                      ))}
+                    </CommandGroup>
+                  )}
+                </CommandList>
+              )}
+            </Command>
+          </TabsContent>
+          <TabsContent value="coordinates">
+            <CoordinateEntry
+              initialValue={initialCoordinates}
+              onAdd={addCoordinates}
+              disabled={disabled}
+              busy={isResolving}
+            />
+          </TabsContent>
+        </Tabs>
+      </div>
+
+      {value.length > 0 && (
+        <ul className="space-y-2">
+          {value.map((item, index) => (
+            <li
+              key={candidateKey(item.candidate)}
+              className="flex items-center gap-2 rounded border bg-white p-2 text-sm"
+            >
+              <div className="flex-1 min-w-0">
+                {item.candidates.length > 1 ? (
+                  <Select
+                    value={candidateKey(item.candidate)}
+                    onValueChange={(key) => chooseCandidate(index, key)}
+                    disabled={disabled}
+                  >
+                    <SelectTrigger className="h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {item.candidates.map((candidate) => (
+                        <SelectItem
+                          key={candidateKey(candidate)}
+                          value={candidateKey(candidate)}
+                        >
+                          {candidate.label} ({candidate.type})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <div className="truncate">{labels[index]}</div>
+                )}
+                <div className="text-xs text-muted-foreground">
+                  {item.candidate.latitude.toFixed(4)},{" "}
+                  {item.candidate.longitude.toFixed(4)}
+                  {item.hint && ` · ${item.hint}`}
+                </div>
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                title="Remove"
+                onClick={() => removeLocation(index)}
+                disabled={disabled}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <label className="block text-sm font-medium">Add a list</label>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 gap-1"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={disabled}
+          >
+            <Upload className="h-3 w-3" />
+            Upload CSV
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.txt,text/csv,text/plain"
+            className="hidden"
+            onChange={handleFileUpload}
+          />
+        </div>
+        <Textarea
+          placeholder={
+            "One city per line (e.g., New York)\nOr coordinates: 48.8566, 2.3522\nOptionally: name, latitude, longitude"
+          }
+          value={bulkText}
+          onChange={(e) => setBulkText(e.target.value)}
+          rows={3}
+          disabled={disabled || isResolving}
+        />
+        <div className="flex items-center justify-between mt-1 gap-2">
+          <p className="text-xs text-muted-foreground">
+            CSV files need a name, location or city column and may include lat
+            and lng columns.
+          </p>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={resolveBulkList}
+            disabled={disabled || isResolving || !bulkText.trim()}
+          >
+            {isResolving ? "Looking up..." : "Add to list"}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LocationPicker;
@@ -0,0 +1,97 @@
+import { useMemo } from "react";
+import { Rocket } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Json } from "@/integrations/supabase/types";
+import { isPeopleInSpaceBlocked } from "@/services/spaceData";
+
+interface PeopleInSpaceRow {
+  people_in_space: number | null;
+  people_details: Json | null;
+  created_at: string;
+}
+
+interface PeopleInSpaceCardProps {
+  data: PeopleInSpaceRow[];
+}
+
+interface Astronaut {
+  name: string;
+  craft: string;
+}
+
+const PeopleInSpaceCard = ({ data }: PeopleInSpaceCardProps) => {
+  // The crew list is a snapshot taken at collection time, so show the newest
+  const latest = useMemo(
+    () =>
+      data
+        .filter((item) => item.people_in_space !== null)
+        .sort((a, b) => b.created_at.localeCompare(a.created_at))[0],
+    [data]
+  );
+
+  const crafts = useMemo(() => {
+    const people = Array.isArray(latest?.people_details)
+      ? (latest.people_details as unknown as Astronaut[])
+      : [];
+
+    return people.reduce((groups, person) => {
+      if (!groups[person.craft]) {
+        groups[person.craft] = [];
+      }
+      groups[person.craft].push(person.name);
+      return groups;
+    }, {} as Record<string, string[]>);
+  }, [latest]);
+
+  const title = (
+    <CardHeader className="pb-2">
+      <CardTitle className="flex items-center gap-2">
+        <Rocket className="h-5 w-5 text-purple-500" />
+        People in Space
+      </CardTitle>
+    </CardHeader>
+  );
+
+  // Without any stored count, say why instead of hiding the card
+  if (!latest) {
+    if (data.length === 0) return null;
+    return (
+      <Card>
+        {title}
+        <CardContent className="text-sm text-muted-foreground">
+          {isPeopleInSpaceBlocked()
+            ? "The people-in-space service is only reachable over http, which browsers block on this https page. Set VITE_PEOPLE_IN_SPACE_URL to an https proxy of it and collect again."
+            : "No collected row has the people in space; the service couldn't be reached when the data was collected."}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      {title}
+      <CardContent>
+        <div className="text-4xl font-bold text-center">
+          {latest.people_in_space}
+        </div>
+        <div className="text-sm text-muted-foreground text-center mb-4">
+          as of {new Date(latest.created_at).toLocaleString()}
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          {Object.entries(crafts).map(([craft, names]) => (
+            <div key={craft}>
+              <p className="text-sm font-medium text-gray-600">{craft}</p>
+              <ul className="list-disc list-inside text-sm">
+                {names.map((name) => (
+                  <li key={name}>{name}</li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PeopleInSpaceCard;
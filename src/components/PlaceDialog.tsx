@@ -0,0 +1,183 @@
+import { FormEvent, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Place, PlaceInput, normalizeQuery } from "@/services/placeCache";
+
+interface PlaceDialogProps {
+  // The place being edited, or null to add one
+  place: Place | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSave: (place: PlaceInput) => Promise<void>;
+}
+
+interface PlaceForm {
+  label: string;
+  name: string;
+  country: string;
+  type: string;
+  latitude: string;
+  longitude: string;
+  aliases: string;
+}
+
+const emptyForm: PlaceForm = {
+  label: "",
+  name: "",
+  country: "",
+  type: "city",
+  latitude: "",
+  longitude: "",
+  aliases: "",
+};
+
+const toForm = (place: Place): PlaceForm => ({
+  label: place.label,
+  name: place.name,
+  country: place.country ?? "",
+  type: place.type,
+  latitude: String(place.latitude),
+  longitude: String(place.longitude),
+  aliases: place.aliases.join(", "),
+});
+
+const parseCoordinate = (value: string, limit: number) => {
+  const number = Number(value);
+  return value.trim() !== "" &&
+    Number.isFinite(number) &&
+    Math.abs(number) <= limit
+    ? number
+    : null;
+};
+
+// The label and name are always aliases, so the place is found by them
+const toPlaceInput = (form: PlaceForm, place: Place | null): PlaceInput => {
+  const label = form.label.trim();
+  const name = form.name.trim() || label;
+  return {
+    label,
+    name,
+    display_name: place && place.label === label ? place.display_name : label,
+    country: form.country.trim() || null,
+    type: form.type.trim() || "city",
+    latitude: Number(form.latitude),
+    longitude: Number(form.longitude),
+    aliases: [
+      ...new Set(
+        [label, name, ...form.aliases.split(",")]
+          .map(normalizeQuery)
+          .filter(Boolean)
+      ),
+    ],
+  };
+};
+
+const PlaceDialog = ({
+  place,
+  open,
+  onOpenChange,
+  onSave,
+}: PlaceDialogProps) => {
+  const [form, setForm] = useState<PlaceForm>(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) setForm(place ? toForm(place) : emptyForm);
+  }, [open, place]);
+
+  const setField = (field: keyof PlaceForm) => (value: string) =>
+    setForm((current) => ({ ...current, [field]: value }));
+
+  const latitudeValid = parseCoordinate(form.latitude, 90) !== null;
+  const longitudeValid = parseCoordinate(form.longitude, 180) !== null;
+  const canSave = Boolean(form.label.trim()) && latitudeValid && longitudeValid;
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!canSave) return;
+
+    setIsSaving(true);
+    try {
+      await onSave(toPlaceInput(form, place));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const field = (
+    key: keyof PlaceForm,
+    label: string,
+    props: { placeholder?: string; invalid?: boolean } = {}
+  ) => (
+    <div>
+      <label className="block text-sm font-medium mb-1">{label}</label>
+      <Input
+        value={form[key]}
+        onChange={(e) => setField(key)(e.target.value)}
+        placeholder={props.placeholder}
+        className={props.invalid ? "border-red-500" : undefined}
+      />
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{place ? "Edit Place" : "Add Place"}</DialogTitle>
+            <DialogDescription>
+              Saved places are used instead of the geocoding service whenever
+              one of their aliases is looked up.
+            </DialogDescription>
+          </DialogHeader>
+
+          {field("label", "Label", {
+            placeholder: "Paris, Île-de-France, France",
+          })}
+          <div className="grid grid-cols-2 gap-4">
+            {field("name", "Name", { placeholder: "Paris" })}
+            {field("country", "Country", { placeholder: "France" })}
+          </div>
+          <div className="grid grid-cols-3 gap-4">
+            {field("latitude", "Latitude", {
+              placeholder: "48.8566",
+              invalid: form.latitude !== "" && !latitudeValid,
+            })}
+            {field("longitude", "Longitude", {
+              placeholder: "2.3522",
+              invalid: form.longitude !== "" && !longitudeValid,
+            })}
+            {field("type", "Type", { placeholder: "city" })}
+          </div>
+          {field("aliases", "Aliases", {
+            placeholder: "Comma-separated, e.g. paris, paris france",
+          })}
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!canSave || isSaving}>
+              {isSaving ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PlaceDialog;
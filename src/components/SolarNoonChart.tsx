@@ -0,0 +1,377 @@
+import { useMemo, useState } from "react";
+import {
+  CartesianGrid,
+  ComposedChart,
+  Legend,
+  Line,
+  Scatter,
+  ScatterChart,
+  TooltipProps,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { eachDayOfInterval, format, parseISO } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  coversFullYear,
+  declinationFromDayLength,
+  MIN_ANALEMMA_LATITUDE,
+  observedEquationOfTime,
+  referenceSunPosition,
+  SolarNoonRow,
+} from "@/lib/analemma";
+
+interface SolarNoonChartProps {
+  data: SolarNoonRow[];
+}
+
+type View = "equation" | "analemma";
+
+interface SourceDeviation {
+  source: string;
+  samples: number;
+  // Mean signed and absolute difference from the reference, in seconds
+  bias: number;
+  meanAbsolute: number;
+}
+
+const COLORS = ["#0088FE", "#00C49F", "#FFBB28", "#FF8042", "#8884D8"];
+const REFERENCE_COLOR = "#64748b";
+
+// Minutes as "-14:13"
+const formatMinutes = (minutes: number) => {
+  const seconds = Math.round(Math.abs(minutes) * 60);
+  return `${minutes < 0 ? "-" : ""}${Math.floor(seconds / 60)}:${String(
+    seconds % 60
+  ).padStart(2, "0")}`;
+};
+
+// Equation of time over the year from each provider's solar noon, and the
+// analemma it traces with the declination recovered from day length, both
+// against the computed curves
+const SolarNoonChart = ({ data }: SolarNoonChartProps) => {
+  const [view, setView] = useState<View>("equation");
+  const locations = useMemo(
+    () => Array.from(new Set(data.map((item) => item.location))).sort(),
+    [data]
+  );
+  const [selectedLocation, setSelectedLocation] = useState<string>("");
+  const location = locations.includes(selectedLocation)
+    ? selectedLocation
+    : locations[0];
+
+  const rows = useMemo(
+    () =>
+      data
+        .filter((item) => item.location === location)
+        .sort((a, b) => a.date.localeCompare(b.date)),
+    [data, location]
+  );
+  const sources = useMemo(
+    () => Array.from(new Set(rows.map((row) => row.source))).sort(),
+    [rows]
+  );
+  const longitude = rows[0]?.longitude ?? 0;
+  const latitude = rows[0]?.latitude ?? 0;
+
+  const chartConfig = useMemo(
+    () =>
+      ({
+        reference: { label: "Computed", color: REFERENCE_COLOR },
+        ...Object.fromEntries(
+          sources.map((source, i) => [
+            `s${i}`,
+            { label: source, color: COLORS[i % COLORS.length] },
+          ])
+        ),
+      } as ChartConfig),
+    [sources]
+  );
+
+  // One point per date with the reference and each source's value, and how
+  // far each source strays from the reference
+  const { equationData, deviations } = useMemo(() => {
+    const points: Record<string, Record<string, number | string>> = {};
+    const differences: Record<string, number[]> = {};
+
+    rows.forEach((row) => {
+      const minutes = observedEquationOfTime(row);
+      if (minutes === null) return;
+      if (!points[row.date]) {
+        points[row.date] = {
+          date: row.date,
+          reference: referenceSunPosition(row.date, longitude).equationOfTime,
+        };
+      }
+      const point = points[row.date];
+      point[`s${sources.indexOf(row.source)}`] = minutes;
+
+      if (!differences[row.source]) differences[row.source] = [];
+      differences[row.source].push(
+        (minutes - (point.reference as number)) * 60
+      );
+    });
+
+    const summary: SourceDeviation[] = Object.entries(differences).map(
+      ([source, values]) => ({
+        source,
+        samples: values.length,
+        bias: values.reduce((sum, value) => sum + value, 0) / values.length,
+        meanAbsolute:
+          values.reduce((sum, value) => sum + Math.abs(value), 0) /
+          values.length,
+      })
+    );
+
+    return {
+      equationData: Object.values(points).sort((a, b) =>
+        String(a.date).localeCompare(String(b.date))
+      ),
+      deviations: summary.sort((a, b) => a.source.localeCompare(b.source)),
+    };
+  }, [rows, sources, longitude]);
+
+  const hasFullYear = coversFullYear(rows);
+  const canTraceAnalemma =
+    hasFullYear && Math.abs(latitude) >= MIN_ANALEMMA_LATITUDE;
+
+  const analemma = useMemo(() => {
+    if (!canTraceAnalemma) return null;
+
+    const year = rows[rows.length - 1].date.slice(0, 4);
+    const reference = eachDayOfInterval({
+      start: parseISO(`${year}-01-01`),
+      end: parseISO(`${year}-12-31`),
+    }).map((day) => {
+      const date = format(day, "yyyy-MM-dd");
+      const { equationOfTime, declination } = referenceSunPosition(
+        date,
+        longitude
+      );
+      return { date, x: equationOfTime, y: declination };
+    });
+
+    const bySource = sources.map((source) =>
+      rows
+        .filter((row) => row.source === source)
+        .map((row) => ({
+          date: row.date,
+          x: observedEquationOfTime(row),
+          y: declinationFromDayLength(row.latitude, row.day_length),
+        }))
+        .filter((point) => point.x !== null && point.y !== null)
+    );
+
+    return { reference, bySource };
+  }, [canTraceAnalemma, rows, sources, longitude]);
+
+  const renderAnalemmaTooltip = ({
+    active,
+    payload,
+  }: TooltipProps<number, string>) => {
+    if (!active || !payload?.length) return null;
+    const point = payload[0].payload as { date: string; x: number; y: number };
+
+    return (
+      <div className="grid min-w-[8rem] gap-1 rounded-lg border border-border/50 bg-background px-2.5 py-1.5 text-xs shadow-xl">
+        <div className="font-medium">{format(parseISO(point.date), "PPP")}</div>
+        <div>Equation of time: {formatMinutes(point.x)}</div>
+        <div>Declination: {point.y.toFixed(2)}°</div>
+      </div>
+    );
+  };
+
+  const analemmaMessage = !hasFullYear
+    ? `The analemma needs rows in every month of the year; ${location} has ${
+        new Set(rows.map((row) => row.date.slice(5, 7))).size
+      }.`
+    : `Day length hardly changes within ${MIN_ANALEMMA_LATITUDE}° of the equator, so the declination can't be recovered from it there.`;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-4 space-y-0">
+        <CardTitle>Equation of Time and Analemma</CardTitle>
+        <div className="flex flex-wrap items-center gap-2">
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            size="sm"
+            value={view}
+            onValueChange={(value) => value && setView(value as View)}
+          >
+            <ToggleGroupItem value="equation">Equation of time</ToggleGroupItem>
+            <ToggleGroupItem value="analemma">Analemma</ToggleGroupItem>
+          </ToggleGroup>
+          <Select value={location} onValueChange={setSelectedLocation}>
+            <SelectTrigger className="w-48">
+              <SelectValue placeholder="Select location" />
+            </SelectTrigger>
+            <SelectContent>
+              {locations.map((item) => (
+                <SelectItem key={item} value={item}>
+                  {item}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {view === "equation" ? (
+          <ChartContainer
+            config={chartConfig}
+            className="aspect-auto h-80 w-full"
+          >
+            <ComposedChart data={equationData}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} />
+              <XAxis dataKey="date" minTickGap={24} />
+              <YAxis
+                tickFormatter={formatMinutes}
+                label={{
+                  value: "Sun ahead of mean time (min)",
+                  angle: -90,
+                  position: "insideLeft",
+                  style: { textAnchor: "middle" },
+                }}
+              />
+              <ChartTooltip
+                content={
+                  <ChartTooltipContent
+                    formatter={(value, name, item) => (
+                      <>
+                        <div
+                          className="h-2.5 w-2.5 shrink-0 rounded-[2px]"
+                          style={{ backgroundColor: item.color }}
+                        />
+                        <div className="flex flex-1 justify-between gap-4 leading-none">
+                          <span className="text-muted-foreground">
+                            {chartConfig[String(item.dataKey)]?.label ?? name}
+                          </span>
+                          <span className="font-mono font-medium tabular-nums text-foreground">
+                            {formatMinutes(Number(value))}
+                          </span>
+                        </div>
+                      </>
+                    )}
+                  />
+                }
+              />
+              <Legend />
+              <Line
+                dataKey="reference"
+                name="Computed"
+                stroke="var(--color-reference)"
+                strokeWidth={2}
+                dot={false}
+                isAnimationActive={false}
+              />
+              {sources.map((source, i) => (
+                <Line
+                  key={source}
+                  dataKey={`s${i}`}
+                  name={source}
+                  stroke={`var(--color-s${i})`}
+                  strokeWidth={0}
+                  dot={{ r: 2, fill: `var(--color-s${i})` }}
+                  activeDot={{ r: 4 }}
+                  isAnimationActive={false}
+                />
+              ))}
+            </ComposedChart>
+          </ChartContainer>
+        ) : analemma ? (
+          <ChartContainer
+            config={chartConfig}
+            className="aspect-auto h-96 w-full"
+          >
+            <ScatterChart margin={{ top: 10, right: 10, bottom: 20, left: 10 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis
+                type="number"
+                dataKey="x"
+                domain={[-18, 18]}
+                tickFormatter={formatMinutes}
+                label={{
+                  value: "Equation of time (min)",
+                  position: "bottom",
+                }}
+              />
+              <YAxis
+                type="number"
+                dataKey="y"
+                domain={[-25, 25]}
+                ticks={[-20, -10, 0, 10, 20]}
+                label={{
+                  value: "Declination (°)",
+                  angle: -90,
+                  position: "insideLeft",
+                }}
+              />
+              <ChartTooltip content={renderAnalemmaTooltip} />
+              <Legend verticalAlign="top" />
+              <Scatter
+                name="Computed"
+                data={analemma.reference}
+                line={{ stroke: REFERENCE_COLOR, strokeWidth: 2 }}
+                shape={() => null}
+                fill={REFERENCE_COLOR}
+                isAnimationActive={false}
+              />
+              {sources.map((source, i) => (
+                <Scatter
+                  key={source}
+                  name={source}
+                  data={analemma.bySource[i]}
+                  fill={`var(--color-s${i})`}
+                  shape="circle"
+                  isAnimationActive={false}
+                />
+              ))}
+            </ScatterChart>
+          </ChartContainer>
+        ) : (
+          <div className="flex justify-center items-center h-80 text-sm text-muted-foreground text-center">
+            {analemmaMessage}
+          </div>
+        )}
+
+        {deviations.length > 0 && (
+          <div className="mt-4 text-sm">
+            <div className="font-medium mb-1">
+              Solar noon against the computed curve
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-1 text-muted-foreground">
+              {deviations.map((deviation) => (
+                <div key={deviation.source}>
+                  <span className="font-medium text-foreground">
+                    {deviation.source}
+                  </span>
+                  : {Math.round(deviation.meanAbsolute)} s mean difference,{" "}
+                  {deviation.bias >= 0 ? "+" : ""}
+                  {Math.round(deviation.bias)} s bias over {deviation.samples}{" "}
+                  days
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SolarNoonChart;
@@ -0,0 +1,256 @@
+import { useMemo, useState } from "react";
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from "recharts";
+import { Scale, AlertTriangle } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import {
+  buildHistogram,
+  COMPARED_FIELDS,
+  ComparedField,
+  compareSources,
+  SourceComparisonRow,
+  summarizeSourcePairs,
+} from "@/lib/sourceAgreement";
+
+interface SourceAgreementProps {
+  data: SourceComparisonRow[];
+}
+
+const HISTOGRAM_BIN_MINUTES = 0.5;
+const WORST_COUNT = 10;
+
+const formatMinutes = (seconds: number | null, signed = false) => {
+  if (seconds === null) return "—";
+  const minutes = (seconds / 60).toFixed(1);
+  return `${signed && seconds > 0 ? "+" : ""}${minutes} min`;
+};
+
+const SourceAgreement = ({ data }: SourceAgreementProps) => {
+  const [thresholdMinutes, setThresholdMinutes] = useState(2);
+  const [histogramField, setHistogramField] =
+    useState<ComparedField>("sunrise");
+
+  const thresholdSeconds = thresholdMinutes * 60;
+
+  const discrepancies = useMemo(() => compareSources(data), [data]);
+
+  const pairSummaries = useMemo(
+    () => summarizeSourcePairs(discrepancies, thresholdSeconds),
+    [discrepancies, thresholdSeconds]
+  );
+
+  const histogram = useMemo(
+    () =>
+      buildHistogram(
+        discrepancies
+          .map((item) => item.differences[histogramField])
+          .filter((value) => value !== null)
+          .map((value) => value / 60),
+        HISTOGRAM_BIN_MINUTES
+      ).map((bin) => ({
+        range: bin.to === null ? `≥${bin.from}` : `${bin.from}–${bin.to}`,
+        count: bin.count,
+      })),
+    [discrepancies, histogramField]
+  );
+
+  const worstDisagreements = useMemo(
+    () =>
+      [...discrepancies]
+        .sort((a, b) => b.maxDifference - a.maxDifference)
+        .slice(0, WORST_COUNT),
+    [discrepancies]
+  );
+
+  const flaggedCount = discrepancies.filter(
+    (item) => item.maxDifference > thresholdSeconds
+  ).length;
+
+  return (
+    <Card className="mb-8 bg-purple-50 border-purple-200">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Scale className="h-5 w-5 text-purple-500" />
+          Source Agreement
+        </CardTitle>
+        <CardDescription>
+          How closely the data sources agree for the same location and date
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {discrepancies.length === 0 ? (
+          <p className="text-sm text-gray-600">
+            Collect the same location and date from at least two sources to
+            compare them.
+          </p>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 items-end">
+              <div>
+                <label className="block text-sm font-medium mb-1">
+                  Flag differences above (minutes)
+                </label>
+                <Input
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  value={thresholdMinutes}
+                  onChange={(e) =>
+                    setThresholdMinutes(Math.max(0, Number(e.target.value)))
+                  }
+                />
+              </div>
+              <p className="text-sm text-gray-600">
+                <span className="font-medium">{flaggedCount}</span> of{" "}
+                {discrepancies.length} comparisons exceed the threshold.
+              </p>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Source Pair</TableHead>
+                  <TableHead>Samples</TableHead>
+                  {COMPARED_FIELDS.map(({ field, label }) => (
+                    <TableHead key={field}>Mean |Δ| {label}</TableHead>
+                  ))}
+                  <TableHead>Flagged</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {pairSummaries.map((summary) => (
+                  <TableRow key={summary.pair}>
+                    <TableCell className="font-medium">
+                      {summary.pair}
+                    </TableCell>
+                    <TableCell>{summary.samples}</TableCell>
+                    {COMPARED_FIELDS.map(({ field }) => (
+                      <TableCell key={field}>
+                        {formatMinutes(summary.meanDifferences[field])}
+                      </TableCell>
+                    ))}
+                    <TableCell
+                      className={cn(summary.flagged > 0 && "text-red-600")}
+                    >
+                      {summary.flagged}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="font-bold">Distribution of differences</h3>
+                <Select
+                  value={histogramField}
+                  onValueChange={(value) =>
+                    setHistogramField(value as ComparedField)
+                  }
+                >
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {COMPARED_FIELDS.map(({ field, label }) => (
+                      <SelectItem key={field} value={field}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={histogram}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis
+                      dataKey="range"
+                      label={{
+                        value: "|Δ| minutes",
+                        position: "insideBottom",
+                        offset: -5,
+                      }}
+                    />
+                    <YAxis allowDecimals={false} />
+                    <Tooltip
+                      formatter={(value) => [`${value} comparisons`, "Count"]}
+                    />
+                    <Bar dataKey="count" fill="#8b5cf6" />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+
+            <div>
+              <h3 className="font-bold mb-2">Worst disagreements</h3>
+              <div className="space-y-2">
+                {worstDisagreements.map((item) => {
+                  const flagged = item.maxDifference > thresholdSeconds;
+                  return (
+                    <div
+                      key={`${item.location}-${item.date}-${item.sourceA}-${item.sourceB}`}
+                      className={cn(
+                        "border rounded-lg p-3 text-sm bg-white",
+                        flagged && "border-red-300"
+                      )}
+                    >
+                      <div className="flex items-center gap-2 font-medium">
+                        {flagged && (
+                          <AlertTriangle className="h-4 w-4 text-red-500" />
+                        )}
+                        {item.location} — {item.date}
+                      </div>
+                      <p className="text-gray-600">
+                        {item.sourceA} vs {item.sourceB}:{" "}
+                        {COMPARED_FIELDS.map(
+                          ({ field, label }) =>
+                            `${label} ${formatMinutes(
+                              item.differences[field],
+                              true
+                            )}`
+                        ).join(", ")}
+                      </p>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SourceAgreement;
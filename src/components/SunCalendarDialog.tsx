@@ -0,0 +1,293 @@
+import { useEffect, useState } from "react";
+import { addDays, differenceInCalendarDays, format, parseISO } from "date-fns";
+import { Copy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "@/components/ui/use-toast";
+import {
+  DEFAULT_SUN_EVENTS,
+  SUN_EVENT_KINDS,
+  SunEventKind,
+  sunCalendarFileName,
+} from "@/lib/icalendar";
+import { isValidTimeZone, nauticalTimeZone } from "@/lib/timezone";
+import { Place } from "@/services/placeCache";
+import {
+  createSunCalendar,
+  getStoredSunCalendarSources,
+  sunCalendarFeedUrl,
+} from "@/services/sunCalendar";
+
+interface SunCalendarDialogProps {
+  // The place to make a calendar for; the dialog is open while it's set
+  place: Place | null;
+  onClose: () => void;
+}
+
+// Select items can't have an empty value
+const COMPUTED = "__computed__";
+
+const REMINDERS = [
+  { value: "none", label: "No reminder" },
+  { value: "10", label: "10 minutes before" },
+  { value: "15", label: "15 minutes before" },
+  { value: "30", label: "30 minutes before" },
+  { value: "60", label: "1 hour before" },
+];
+
+const DEFAULT_RANGE_DAYS = 30;
+
+const downloadText = (text: string, fileName: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type: "text/calendar" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const SunCalendarDialog = ({ place, onClose }: SunCalendarDialogProps) => {
+  const [dateFrom, setDateFrom] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [dateTo, setDateTo] = useState(
+    format(addDays(new Date(), DEFAULT_RANGE_DAYS - 1), "yyyy-MM-dd")
+  );
+  const [events, setEvents] = useState<SunEventKind[]>(DEFAULT_SUN_EVENTS);
+  const [sources, setSources] = useState<string[]>([]);
+  const [source, setSource] = useState(COMPUTED);
+  const [timeZone, setTimeZone] = useState("");
+  const [reminder, setReminder] = useState("none");
+  const [isBuilding, setIsBuilding] = useState(false);
+
+  // Stored rows tell which sources can be used and the place's timezone
+  useEffect(() => {
+    if (!place) return;
+    setSources([]);
+    setSource(COMPUTED);
+    setTimeZone(nauticalTimeZone(place.longitude));
+
+    getStoredSunCalendarSources(place.label).then(({ data, error }) => {
+      if (error) {
+        console.error("Error fetching stored sources:", error);
+        return;
+      }
+      setSources(data.sources);
+      if (data.timeZone) setTimeZone(data.timeZone);
+    });
+  }, [place]);
+
+  const days =
+    differenceInCalendarDays(parseISO(dateTo), parseISO(dateFrom)) + 1;
+  const timeZoneValid = isValidTimeZone(timeZone);
+  const isValid =
+    place !== null && timeZoneValid && days >= 1 && events.length > 0;
+
+  const request = place && {
+    location: place.label,
+    latitude: place.latitude,
+    longitude: place.longitude,
+    timeZone,
+    events,
+    alarmMinutes: reminder === "none" ? null : Number(reminder),
+    source: source === COMPUTED ? null : source,
+  };
+  const feedUrl = isValid ? sunCalendarFeedUrl(request, days) : "";
+
+  const toggleEvent = (kind: SunEventKind, checked: boolean) =>
+    setEvents((current) =>
+      checked
+        ? SUN_EVENT_KINDS.map((item) => item.value).filter(
+            (value) => value === kind || current.includes(value)
+          )
+        : current.filter((item) => item !== kind)
+    );
+
+  const handleDownload = async () => {
+    setIsBuilding(true);
+    const { data, error } = await createSunCalendar({
+      ...request,
+      dateFrom,
+      dateTo,
+    });
+    setIsBuilding(false);
+
+    if (error) {
+      console.error("Error building calendar:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load the stored times for the calendar",
+        variant: "destructive",
+      });
+      return;
+    }
+    downloadText(data, sunCalendarFileName(place.label));
+  };
+
+  const copyFeedUrl = async () => {
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      toast({ title: "Copied", description: "Subscribe URL copied" });
+    } catch (error) {
+      console.error("Error copying subscribe URL:", error);
+    }
+  };
+
+  return (
+    <Dialog open={place !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Sun Calendar for {place?.label}</DialogTitle>
+          <DialogDescription>
+            Sunrise, sunset and the light around them as calendar events in the
+            place's local time.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium mb-1">From</label>
+            <Input
+              type="date"
+              value={dateFrom}
+              onChange={(e) => setDateFrom(e.target.value)}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-1">To</label>
+            <Input
+              type="date"
+              value={dateTo}
+              min={dateFrom}
+              onChange={(e) => setDateTo(e.target.value)}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-1">Times from</label>
+            <Select value={source} onValueChange={setSource}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={COMPUTED}>Computed locally</SelectItem>
+                {sources.map((item) => (
+                  <SelectItem key={item} value={item}>
+                    Collected from {item}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {source !== COMPUTED && (
+              <p className="text-xs text-muted-foreground mt-1">
+                Dates without a row from this source are computed.
+              </p>
+            )}
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-1">Time zone</label>
+            <Input
+              value={timeZone}
+              onChange={(e) => setTimeZone(e.target.value.trim())}
+              placeholder="e.g. Europe/Paris"
+            />
+            {!timeZoneValid && (
+              <p className="text-xs text-red-500 mt-1">
+                Not a known IANA time zone
+              </p>
+            )}
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium mb-2">Events</label>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {SUN_EVENT_KINDS.map((item) => (
+              <div key={item.value} className="flex items-start gap-2">
+                <Checkbox
+                  id={`sun-event-${item.value}`}
+                  checked={events.includes(item.value)}
+                  onCheckedChange={(checked) =>
+                    toggleEvent(item.value, checked === true)
+                  }
+                />
+                <label
+                  htmlFor={`sun-event-${item.value}`}
+                  className="text-sm leading-none cursor-pointer"
+                >
+                  {item.label}
+                  <span className="block text-xs text-muted-foreground mt-1">
+                    {item.description}
+                  </span>
+                </label>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="w-56">
+          <label className="block text-sm font-medium mb-1">Reminder</label>
+          <Select value={reminder} onValueChange={setReminder}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {REMINDERS.map((item) => (
+                <SelectItem key={item.value} value={item.value}>
+                  {item.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {feedUrl && (
+          <div>
+            <label className="block text-sm font-medium mb-1">
+              Subscribe URL
+            </label>
+            <div className="flex gap-2">
+              <Input value={feedUrl} readOnly className="font-mono text-xs" />
+              <Button
+                variant="outline"
+                size="icon"
+                title="Copy"
+                onClick={copyFeedUrl}
+              >
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground mt-1">
+              A subscribed calendar always shows the next {days} days. The feed
+              is served by <code>npm run serve:calendar</code>.
+            </p>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleDownload} disabled={!isValid || isBuilding}>
+            {isBuilding ? "Building..." : "Download .ics"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SunCalendarDialog;
@@ -0,0 +1,200 @@
+import { useMemo, useState } from "react";
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { TWILIGHT_FIELDS, TwilightTimes } from "@/services/providers";
+
+export interface TwilightBandRow extends TwilightTimes {
+  location: string;
+  date: string;
+  // Null in polar day or night
+  sunrise: string | null;
+  sunset: string | null;
+  solar_noon: string | null;
+  day_length: number;
+}
+
+interface TwilightBandChartProps {
+  data: TwilightBandRow[];
+}
+
+// Evening bands mirror the morning ones, so only one of each is in the legend
+const BANDS = [
+  { key: "nightMorning", name: "Night", color: "#1e293b", legend: true },
+  {
+    key: "astronomicalMorning",
+    name: "Astronomical",
+    color: "#3730a3",
+    legend: true,
+  },
+  { key: "nauticalMorning", name: "Nautical", color: "#4f46e5", legend: true },
+  { key: "civilMorning", name: "Civil", color: "#818cf8", legend: true },
+  { key: "day", name: "Daylight", color: "#fde68a", legend: true },
+  { key: "civilEvening", name: "Civil", color: "#818cf8", legend: false },
+  { key: "nauticalEvening", name: "Nautical", color: "#4f46e5", legend: false },
+  {
+    key: "astronomicalEvening",
+    name: "Astronomical",
+    color: "#3730a3",
+    legend: false,
+  },
+  { key: "nightEvening", name: "Night", color: "#1e293b", legend: false },
+];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const countTwilightFields = (row: TwilightBandRow) =>
+  TWILIGHT_FIELDS.filter((field) => row[field]).length;
+
+// Splits a day into phase durations (hours), measured in local solar time so
+// that 0 is solar midnight and 12 is solar noon regardless of timezone.
+const toBands = (row: TwilightBandRow) => {
+  const noon = new Date(row.solar_noon).getTime();
+  const start = noon - 12 * HOUR_MS;
+  const end = start + 24 * HOUR_MS;
+  // In polar night the day band shrinks to solar noon instead
+  const polarNight = !row.sunrise && !row.sunset && row.day_length === 0;
+
+  // A phase that doesn't occur extends to solar midnight
+  const hoursAt = (value: string | null | undefined, fallback: number) =>
+    ((value ? new Date(value).getTime() : fallback) - start) / HOUR_MS;
+
+  const morning = [
+    hoursAt(row.astronomical_twilight_begin, start),
+    hoursAt(row.nautical_twilight_begin, start),
+    hoursAt(row.civil_twilight_begin, start),
+    hoursAt(row.sunrise, polarNight ? noon : start),
+  ];
+  const evening = [
+    hoursAt(row.sunset, polarNight ? noon : end),
+    hoursAt(row.civil_twilight_end, end),
+    hoursAt(row.nautical_twilight_end, end),
+    hoursAt(row.astronomical_twilight_end, end),
+  ];
+
+  const round = (value: number) => Math.max(0, Number(value.toFixed(2)));
+
+  return {
+    date: row.date,
+    nightMorning: round(morning[0]),
+    astronomicalMorning: round(morning[1] - morning[0]),
+    nauticalMorning: round(morning[2] - morning[1]),
+    civilMorning: round(morning[3] - morning[2]),
+    day: round(evening[0] - morning[3]),
+    civilEvening: round(evening[1] - evening[0]),
+    nauticalEvening: round(evening[2] - evening[1]),
+    astronomicalEvening: round(evening[3] - evening[2]),
+    nightEvening: round(24 - evening[3]),
+  };
+};
+
+const TwilightBandChart = ({ data }: TwilightBandChartProps) => {
+  const locations = useMemo(
+    () => Array.from(new Set(data.map((item) => item.location))).sort(),
+    [data]
+  );
+  const [selectedLocation, setSelectedLocation] = useState<string>("");
+  const location = locations.includes(selectedLocation)
+    ? selectedLocation
+    : locations[0];
+
+  const chartData = useMemo(() => {
+    // One bar per date, using the source that reports the most phases. Rows
+    // collected before twilight was stored are skipped.
+    const byDate: Record<string, TwilightBandRow> = {};
+    data
+      .filter(
+        (item) => item.location === location && countTwilightFields(item) > 0
+      )
+      .forEach((item) => {
+        const current = byDate[item.date];
+        if (
+          !current ||
+          countTwilightFields(item) > countTwilightFields(current)
+        ) {
+          byDate[item.date] = item;
+        }
+      });
+
+    return Object.values(byDate)
+      .filter((item) => item.solar_noon)
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .map(toBands);
+  }, [data, location]);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+        <CardTitle>Twilight Bands</CardTitle>
+        <Select value={location} onValueChange={setSelectedLocation}>
+          <SelectTrigger className="w-48">
+            <SelectValue placeholder="Select location" />
+          </SelectTrigger>
+          <SelectContent>
+            {locations.map((item) => (
+              <SelectItem key={item} value={item}>
+                {item}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent className="h-80">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={chartData} barCategoryGap={1}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} />
+            <XAxis dataKey="date" />
+            <YAxis
+              domain={[0, 24]}
+              ticks={[0, 6, 12, 18, 24]}
+              label={{
+                value: "Local solar time (h)",
+                angle: -90,
+                position: "insideLeft",
+              }}
+            />
+            <Tooltip
+              formatter={(value: number, name) => [
+                `${Math.round(value * 60)} minutes`,
+                name,
+              ]}
+            />
+            <Legend
+              payload={BANDS.filter((band) => band.legend).map((band) => ({
+                value: band.name,
+                type: "square",
+                color: band.color,
+              }))}
+            />
+            {BANDS.map((band) => (
+              <Bar
+                key={band.key}
+                dataKey={band.key}
+                stackId="phases"
+                fill={band.color}
+                name={band.name}
+              />
+            ))}
+          </BarChart>
+        </ResponsiveContainer>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TwilightBandChart;
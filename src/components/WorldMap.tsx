@@ -0,0 +1,233 @@
+import {
+  MouseEvent,
+  PointerEvent,
+  ReactNode,
+  useEffect,
+  useRef,
+  useState,
+} from "react";
+import { Maximize2, Minus, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { Coordinates } from "@/lib/coordinates";
+import {
+  loadLandPath,
+  MAP_HEIGHT,
+  MAP_WIDTH,
+  project,
+  unproject,
+} from "@/lib/worldMap";
+
+interface WorldMapProps {
+  onMapClick?: (coordinates: Coordinates) => void;
+  // Drawn over the land in map units (see lib/worldMap); zoom is 1 for the
+  // whole world, so sizes divided by it stay the same on screen
+  children?: (zoom: number) => ReactNode;
+  className?: string;
+}
+
+interface View {
+  x: number;
+  y: number;
+  width: number;
+}
+
+const FULL_VIEW: View = { x: 0, y: 0, width: MAP_WIDTH };
+const MAX_ZOOM = 32;
+const ZOOM_STEP = 1.5;
+// Pointer movement, in pixels, below which a press counts as a click
+const CLICK_TOLERANCE_PX = 4;
+const GRATICULE_STEP = 30;
+
+const clampView = ({ x, y, width }: View): View => {
+  const clampedWidth = Math.min(
+    MAP_WIDTH,
+    Math.max(MAP_WIDTH / MAX_ZOOM, width)
+  );
+  const height = clampedWidth / 2;
+  return {
+    x: Math.min(MAP_WIDTH - clampedWidth, Math.max(0, x)),
+    y: Math.min(MAP_HEIGHT - height, Math.max(0, y)),
+    width: clampedWidth,
+  };
+};
+
+// Scales the view by `factor` while keeping the map point at (px, py) in
+// place
+const zoomView = (view: View, factor: number, px: number, py: number) =>
+  clampView({
+    x: px - (px - view.x) * factor,
+    y: py - (py - view.y) * factor,
+    width: view.width * factor,
+  });
+
+// Vector world outline that can be zoomed with the wheel or the buttons
+// and panned by dragging
+const WorldMap = ({ onMapClick, children, className }: WorldMapProps) => {
+  const [landPath, setLandPath] = useState<string | null>(null);
+  const [view, setView] = useState<View>(FULL_VIEW);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const drag = useRef<{ clientX: number; clientY: number; view: View } | null>(
+    null
+  );
+  const dragged = useRef(false);
+
+  useEffect(() => {
+    loadLandPath()
+      .then(setLandPath)
+      .catch((error) => console.error("Error loading world outline:", error));
+  }, []);
+
+  const toMapPoint = (clientX: number, clientY: number) => {
+    const svg = svgRef.current;
+    const point = svg.createSVGPoint();
+    point.x = clientX;
+    point.y = clientY;
+    return point.matrixTransform(svg.getScreenCTM().inverse());
+  };
+
+  // React's wheel listener is passive, so the page would scroll as well
+  useEffect(() => {
+    const svg = svgRef.current;
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const { x, y } = toMapPoint(event.clientX, event.clientY);
+      const factor = event.deltaY > 0 ? ZOOM_STEP : 1 / ZOOM_STEP;
+      setView((current) => zoomView(current, factor, x, y));
+    };
+    svg.addEventListener("wheel", handleWheel, { passive: false });
+    return () => svg.removeEventListener("wheel", handleWheel);
+  }, []);
+
+  const handlePointerDown = (event: PointerEvent<SVGSVGElement>) => {
+    drag.current = { clientX: event.clientX, clientY: event.clientY, view };
+    dragged.current = false;
+  };
+
+  const handlePointerMove = (event: PointerEvent<SVGSVGElement>) => {
+    if (!drag.current) return;
+    const dx = event.clientX - drag.current.clientX;
+    const dy = event.clientY - drag.current.clientY;
+    if (Math.hypot(dx, dy) < CLICK_TOLERANCE_PX && !dragged.current) return;
+
+    if (!dragged.current) {
+      dragged.current = true;
+      svgRef.current.setPointerCapture(event.pointerId);
+    }
+    const start = drag.current.view;
+    const unitsPerPixel =
+      start.width / svgRef.current.getBoundingClientRect().width;
+    setView(
+      clampView({
+        ...start,
+        x: start.x - dx * unitsPerPixel,
+        y: start.y - dy * unitsPerPixel,
+      })
+    );
+  };
+
+  const handlePointerUp = () => {
+    drag.current = null;
+  };
+
+  const handleClick = (event: MouseEvent<SVGSVGElement>) => {
+    if (dragged.current || !onMapClick) return;
+    const { x, y } = toMapPoint(event.clientX, event.clientY);
+    onMapClick(unproject(x, y));
+  };
+
+  const zoomBy = (factor: number) =>
+    setView((current) =>
+      zoomView(
+        current,
+        factor,
+        current.x + current.width / 2,
+        current.y + current.width / 4
+      )
+    );
+
+  const zoom = MAP_WIDTH / view.width;
+
+  return (
+    <div className={cn("relative", className)}>
+      <svg
+        ref={svgRef}
+        viewBox={`${view.x} ${view.y} ${view.width} ${view.width / 2}`}
+        className={cn(
+          "w-full aspect-[2/1] rounded border bg-sky-50 touch-none select-none",
+          onMapClick ? "cursor-crosshair" : "cursor-grab"
+        )}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onClick={handleClick}
+      >
+        <g stroke="#cbd5e1" strokeWidth={0.5 / zoom}>
+          {Array.from(
+            { length: MAP_WIDTH / GRATICULE_STEP - 1 },
+            (_, i) => (i + 1) * GRATICULE_STEP
+          ).map((x) => (
+            <line key={`x${x}`} x1={x} y1={0} x2={x} y2={MAP_HEIGHT} />
+          ))}
+          {Array.from(
+            { length: MAP_HEIGHT / GRATICULE_STEP - 1 },
+            (_, i) => (i + 1) * GRATICULE_STEP
+          ).map((y) => (
+            <line key={`y${y}`} x1={0} y1={y} x2={MAP_WIDTH} y2={y} />
+          ))}
+        </g>
+        {landPath && (
+          <path
+            d={landPath}
+            fill="#e2e8f0"
+            stroke="#94a3b8"
+            strokeWidth={0.4 / zoom}
+          />
+        )}
+        <line
+          x1={0}
+          y1={project(0, 0).y}
+          x2={MAP_WIDTH}
+          y2={project(0, 0).y}
+          stroke="#94a3b8"
+          strokeWidth={0.6 / zoom}
+          strokeDasharray={`${4 / zoom} ${2 / zoom}`}
+        />
+        {children?.(zoom)}
+      </svg>
+
+      <div className="absolute top-2 right-2 flex flex-col gap-1">
+        <Button
+          variant="outline"
+          size="icon"
+          className="h-8 w-8 bg-white"
+          title="Zoom in"
+          onClick={() => zoomBy(1 / ZOOM_STEP)}
+        >
+          <Plus className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="outline"
+          size="icon"
+          className="h-8 w-8 bg-white"
+          title="Zoom out"
+          onClick={() => zoomBy(ZOOM_STEP)}
+        >
+          <Minus className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="outline"
+          size="icon"
+          className="h-8 w-8 bg-white"
+          title="Show the whole world"
+          onClick={() => setView(FULL_VIEW)}
+        >
+          <Maximize2 className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default WorldMap;
@@ -0,0 +1,10 @@
+// Fallback ISS (ZARYA) elements, used when the TLE endpoint is unreachable.
+// Pass predictions degrade quickly away from the epoch, so refresh this from
+// https://celestrak.org/NORAD/elements/gp.php?CATNR=25544&FORMAT=tle
+export const ISS_TLE = {
+  name: "ISS (ZARYA)",
+  line1:
+    "1 25544U 98067A   26285.51782528  .00016717  00000-0  30270-3 0  9998",
+  line2:
+    "2 25544  51.6393 172.4627 0006703 130.5360 325.0288 15.49815321 58316",
+};
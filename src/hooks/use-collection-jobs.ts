@@ -0,0 +1,133 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { toast } from "@/components/ui/use-toast";
+import { QueueProgress } from "@/services/collectionQueue";
+import {
+  CollectionJob,
+  CollectionJobRun,
+  createCollectionJob,
+  describeLocations,
+  getCollectionJobs,
+  NewCollectionJob,
+  runCollectionJob,
+  updateCollectionJob,
+} from "@/services/collectionJobs";
+
+/**
+ * Collection jobs and the runs started from this page. Jobs that are
+ * "running" in the database but have no run here were interrupted, e.g. by
+ * a page reload, and can be resumed.
+ */
+export const useCollectionJobs = () => {
+  const [jobs, setJobs] = useState<CollectionJob[]>([]);
+  const [progress, setProgress] = useState<Record<string, QueueProgress>>({});
+  const [runningIds, setRunningIds] = useState<string[]>([]);
+  const runs = useRef<Record<string, CollectionJobRun>>({});
+
+  const refresh = useCallback(async () => {
+    const { data, error } = await getCollectionJobs();
+    if (error) {
+      console.error("Error fetching collection jobs:", error);
+      return;
+    }
+    setJobs(data || []);
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const storeJob = (job: CollectionJob) => {
+    setJobs((current) =>
+      current.some((item) => item.id === job.id)
+        ? current.map((item) => (item.id === job.id ? job : item))
+        : [job, ...current]
+    );
+  };
+
+  const run = async (job: CollectionJob, concurrency?: number) => {
+    const jobRun = runCollectionJob(job, {
+      concurrency,
+      onProgress: (value) =>
+        setProgress((current) => ({ ...current, [job.id]: value })),
+      onUpdate: storeJob,
+    });
+    runs.current[job.id] = jobRun;
+    setRunningIds((current) => [...current, job.id]);
+
+    try {
+      const { job: finished, summary } = await jobRun.start();
+
+      toast({
+        title:
+          finished.status === "completed"
+            ? summary.failed > 0
+              ? "Completed with errors"
+              : "Success"
+            : `Collection ${finished.status}`,
+        description: `${describeLocations(job)}: ${summary.inserted} new, ${
+          summary.updated
+        } updated, ${summary.skipped} skipped${
+          summary.failed > 0 ? `, ${summary.failed} failed` : ""
+        }.`,
+        variant:
+          finished.status === "completed" && summary.failed > 0
+            ? "destructive"
+            : "default",
+      });
+
+      return finished;
+    } finally {
+      delete runs.current[job.id];
+      setRunningIds((current) => current.filter((id) => id !== job.id));
+      setProgress((current) => {
+        const next = { ...current };
+        delete next[job.id];
+        return next;
+      });
+    }
+  };
+
+  const startJob = async (newJob: NewCollectionJob, concurrency?: number) => {
+    const { data, error } = await createCollectionJob(newJob);
+    if (error) throw error;
+
+    storeJob(data);
+    return run(data, concurrency);
+  };
+
+  const resumeJob = (id: string, concurrency?: number) => {
+    const job = jobs.find((item) => item.id === id);
+    if (job && !runs.current[id]) {
+      return run(job, concurrency);
+    }
+  };
+
+  const pauseJob = (id: string) => runs.current[id]?.pause();
+
+  // Jobs that aren't running here only need their record updated
+  const cancelJob = async (id: string) => {
+    if (runs.current[id]) {
+      runs.current[id].cancel();
+      return;
+    }
+
+    const { data, error } = await updateCollectionJob(id, {
+      status: "cancelled",
+    });
+    if (error) {
+      console.error(`Error cancelling collection job ${id}:`, error);
+      return;
+    }
+    storeJob(data);
+  };
+
+  return {
+    jobs,
+    progress,
+    runningIds,
+    startJob,
+    resumeJob,
+    pauseJob,
+    cancelJob,
+  };
+};
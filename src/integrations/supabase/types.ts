@@ -11,64 +11,303 @@ export type Database = {
     Tables: {
       astronomical_data: {
         Row: {
+          astronomical_twilight_begin: string | null
+          astronomical_twilight_end: string | null
+          civil_twilight_begin: string | null
+          civil_twilight_end: string | null
+          country: string | null
           created_at: string
           date: string
           day_length: number
+          first_light: string | null
+          golden_hour: string | null
           id: string
           iss_next_pass: string | null
           iss_passes: number | null
+          last_light: string | null
           latitude: number
           location: string
+          location_key: string
           longitude: number
+          nautical_twilight_begin: string | null
+          nautical_twilight_end: string | null
           people_details: Json | null
           people_in_space: number | null
-          solar_noon: string
+          solar_noon: string | null
           source: string
-          sunrise: string
-          sunset: string
+          sunrise: string | null
+          sunrise_local_seconds: number | null
+          sunset: string | null
+          sunset_local_seconds: number | null
+          timezone: string | null
         }
         Insert: {
+          astronomical_twilight_begin?: string | null
+          astronomical_twilight_end?: string | null
+          civil_twilight_begin?: string | null
+          civil_twilight_end?: string | null
+          country?: string | null
           created_at?: string
           date: string
           day_length: number
+          first_light?: string | null
+          golden_hour?: string | null
           id?: string
           iss_next_pass?: string | null
           iss_passes?: number | null
+          last_light?: string | null
           latitude: number
           location: string
+          location_key?: string
           longitude: number
+          nautical_twilight_begin?: string | null
+          nautical_twilight_end?: string | null
           people_details?: Json | null
           people_in_space?: number | null
-          solar_noon: string
+          solar_noon?: string | null
           source: string
-          sunrise: string
-          sunset: string
+          sunrise?: string | null
+          sunrise_local_seconds?: number | null
+          sunset?: string | null
+          sunset_local_seconds?: number | null
+          timezone?: string | null
         }
         Update: {
+          astronomical_twilight_begin?: string | null
+          astronomical_twilight_end?: string | null
+          civil_twilight_begin?: string | null
+          civil_twilight_end?: string | null
+          country?: string | null
           created_at?: string
           date?: string
           day_length?: number
+          first_light?: string | null
+          golden_hour?: string | null
           id?: string
           iss_next_pass?: string | null
           iss_passes?: number | null
+          last_light?: string | null
           latitude?: number
           location?: string
+          location_key?: string
           longitude?: number
+          nautical_twilight_begin?: string | null
+          nautical_twilight_end?: string | null
           people_details?: Json | null
           people_in_space?: number | null
-          solar_noon?: string
+          solar_noon?: string | null
           source?: string
-          sunrise?: string
-          sunset?: string
+          sunrise?: string | null
+          sunrise_local_seconds?: number | null
+          sunset?: string | null
+          sunset_local_seconds?: number | null
+          timezone?: string | null
+        }
+        Relationships: []
+      }
+      collection_jobs: {
+        Row: {
+          completed_keys: string[]
+          created_at: string
+          date_from: string
+          date_to: string
+          failed: number
+          failed_keys: string[]
+          id: string
+          inserted: number
+          locations: Json
+          provider_ids: string[]
+          save_mode: string
+          skipped: number
+          status: string
+          updated: number
+          updated_at: string
+        }
+        Insert: {
+          completed_keys?: string[]
+          created_at?: string
+          date_from: string
+          date_to: string
+          failed?: number
+          failed_keys?: string[]
+          id?: string
+          inserted?: number
+          locations?: Json
+          provider_ids: string[]
+          save_mode?: string
+          skipped?: number
+          status?: string
+          updated?: number
+          updated_at?: string
+        }
+        Update: {
+          completed_keys?: string[]
+          created_at?: string
+          date_from?: string
+          date_to?: string
+          failed?: number
+          failed_keys?: string[]
+          id?: string
+          inserted?: number
+          locations?: Json
+          provider_ids?: string[]
+          save_mode?: string
+          skipped?: number
+          status?: string
+          updated?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      locations: {
+        Row: {
+          aliases: string[]
+          country: string | null
+          created_at: string
+          display_name: string
+          edited: boolean
+          id: string
+          importance: number
+          label: string
+          latitude: number
+          longitude: number
+          name: string
+          type: string
+          updated_at: string
+        }
+        Insert: {
+          aliases?: string[]
+          country?: string | null
+          created_at?: string
+          display_name: string
+          edited?: boolean
+          id?: string
+          importance?: number
+          label: string
+          latitude: number
+          longitude: number
+          name: string
+          type?: string
+          updated_at?: string
+        }
+        Update: {
+          aliases?: string[]
+          country?: string | null
+          created_at?: string
+          display_name?: string
+          edited?: boolean
+          id?: string
+          importance?: number
+          label?: string
+          latitude?: number
+          longitude?: number
+          name?: string
+          type?: string
+          updated_at?: string
         }
         Relationships: []
       }
     }
     Views: {
-      [_ in never]: never
+      collected_locations: {
+        Row: {
+          country: string | null
+          first_date: string
+          last_date: string
+          latitude: number
+          location: string
+          location_key: string
+          longitude: number
+          rows: number
+        }
+        Relationships: []
+      }
     }
     Functions: {
-      [_ in never]: never
+      astronomical_chart_points: {
+        Args: {
+          date_from?: string
+          date_to?: string
+          location_pattern?: string
+          max_points?: number
+          source_filter?: string
+        }
+        Returns: {
+          astronomical_twilight_begin: string | null
+          astronomical_twilight_end: string | null
+          civil_twilight_begin: string | null
+          civil_twilight_end: string | null
+          created_at: string
+          date: string
+          day_length: number
+          first_light: string | null
+          golden_hour: string | null
+          id: string
+          last_light: string | null
+          latitude: number
+          location: string
+          location_key: string
+          longitude: number
+          nautical_twilight_begin: string | null
+          nautical_twilight_end: string | null
+          people_details: Json | null
+          people_in_space: number | null
+          rows: number
+          solar_noon: string | null
+          source: string
+          sunrise: string | null
+          sunset: string | null
+          timezone: string | null
+        }[]
+      }
+      astronomical_filtered: {
+        Args: {
+          date_from?: string
+          date_to?: string
+          location_pattern?: string
+          source_filter?: string
+        }
+        Returns: {
+          astronomical_twilight_begin: string | null
+          astronomical_twilight_end: string | null
+          civil_twilight_begin: string | null
+          civil_twilight_end: string | null
+          country: string | null
+          created_at: string
+          date: string
+          day_length: number
+          first_light: string | null
+          golden_hour: string | null
+          id: string
+          iss_next_pass: string | null
+          iss_passes: number | null
+          last_light: string | null
+          latitude: number
+          location: string
+          location_key: string
+          longitude: number
+          nautical_twilight_begin: string | null
+          nautical_twilight_end: string | null
+          people_details: Json | null
+          people_in_space: number | null
+          solar_noon: string | null
+          source: string
+          sunrise: string | null
+          sunrise_local_seconds: number | null
+          sunset: string | null
+          sunset_local_seconds: number | null
+          timezone: string | null
+        }[]
+      }
+      astronomical_summary: {
+        Args: {
+          date_from?: string
+          date_to?: string
+          location_pattern?: string
+          source_filter?: string
+        }
+        Returns: Json
+      }
     }
     Enums: {
       [_ in never]: never
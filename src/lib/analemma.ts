@@ -0,0 +1,96 @@
+// Equation of time and analemma points recovered from stored rows, and the
+// computed curves they're checked against. The equation of time comes from
+// solar_noon and the declination from day_length, so the analemma tests
+// both columns.
+
+import { getEquationOfTime, getSubsolarPoint, SUNRISE_ALTITUDE } from "./solar";
+
+export interface SolarNoonRow {
+  location: string;
+  latitude: number;
+  longitude: number;
+  date: string;
+  source: string;
+  solar_noon: string | null;
+  day_length: number;
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+// The equation of time stays within about ±16.5 minutes; offsets further
+// out are bad data
+const MAX_EQUATION_OF_TIME = 20;
+const MAX_DECLINATION = 24;
+// Nearer the equator day length barely changes with the seasons, so the
+// declination can't be recovered from it
+export const MIN_ANALEMMA_LATITUDE = 10;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+/** Mean solar noon at `longitude` on a UTC date, in epoch milliseconds. */
+export const meanSolarNoon = (date: string, longitude: number) =>
+  Date.parse(`${date}T00:00:00Z`) + (720 - 4 * longitude) * 60000;
+
+/**
+ * Equation of time in minutes implied by a stored solar noon, i.e. how far
+ * the sun runs ahead of mean solar time. Null when missing or implausible.
+ */
+export const observedEquationOfTime = (row: SolarNoonRow) => {
+  if (!row.solar_noon) return null;
+  let minutes =
+    (meanSolarNoon(row.date, row.longitude) - Date.parse(row.solar_noon)) /
+    60000;
+  // Some providers report the noon of the location's local date, a day off
+  // from the UTC date near the antimeridian
+  minutes -= Math.round(minutes / MINUTES_PER_DAY) * MINUTES_PER_DAY;
+  return Math.abs(minutes) <= MAX_EQUATION_OF_TIME ? minutes : null;
+};
+
+/**
+ * Solar declination in degrees that gives `dayLength` seconds of daylight at
+ * `latitude`, solving the sunrise hour angle equation for it. Null near the
+ * equator and during polar day or night, where it's undetermined.
+ */
+export const declinationFromDayLength = (
+  latitude: number,
+  dayLength: number
+) => {
+  if (
+    Math.abs(latitude) < MIN_ANALEMMA_LATITUDE ||
+    dayLength <= 0 ||
+    dayLength >= 86400
+  ) {
+    return null;
+  }
+
+  // sin(h0) = sin(φ)sin(δ) + cos(φ)cos(δ)cos(H0), written as
+  // a·sin(δ) + b·cos(δ) = c = r·sin(δ + ψ)
+  const phi = toRadians(latitude);
+  const halfDay = toRadians(dayLength / 480);
+  const a = Math.sin(phi);
+  const b = Math.cos(phi) * Math.cos(halfDay);
+  const c = Math.sin(toRadians(SUNRISE_ALTITUDE));
+  const r = Math.hypot(a, b);
+  if (Math.abs(c) > r) return null;
+
+  const psi = Math.atan2(b, a);
+  const base = Math.asin(c / r);
+  return (
+    [base - psi, Math.PI - base - psi]
+      .map((value) => ((((toDegrees(value) + 180) % 360) + 360) % 360) - 180)
+      .find((value) => Math.abs(value) <= MAX_DECLINATION) ?? null
+  );
+};
+
+/** Computed equation of time (minutes) and declination (degrees) at mean solar noon. */
+export const referenceSunPosition = (date: string, longitude: number) => {
+  const noon = new Date(meanSolarNoon(date, longitude));
+  return {
+    equationOfTime: getEquationOfTime(noon),
+    declination: getSubsolarPoint(noon).latitude,
+  };
+};
+
+/** Whether rows cover every calendar month, enough to close the analemma. */
+export const coversFullYear = (rows: { date: string }[]) =>
+  new Set(rows.map((row) => row.date.slice(5, 7))).size === 12;
@@ -0,0 +1,88 @@
+// Typed row model for the data table. Rows keep raw values (Dates, seconds)
+// so nothing depends on how they're formatted for display; the database
+// sorts them.
+
+import { parseISO } from "date-fns";
+import { displayTimeZone, TimeDisplayMode } from "./timezone";
+
+export type SortableColumn =
+  | "location"
+  | "date"
+  | "day_length"
+  | "sunrise"
+  | "sunset"
+  | "source";
+
+export interface AstronomicalTableSource {
+  id: string;
+  location: string;
+  latitude: number;
+  longitude: number;
+  date: string;
+  sunrise: string | null;
+  sunset: string | null;
+  day_length: number;
+  source: string;
+  timezone?: string | null;
+  civil_twilight_begin?: string | null;
+  civil_twilight_end?: string | null;
+  nautical_twilight_begin?: string | null;
+  nautical_twilight_end?: string | null;
+  astronomical_twilight_begin?: string | null;
+  astronomical_twilight_end?: string | null;
+  golden_hour?: string | null;
+  iss_next_pass?: string | null;
+}
+
+export interface AstronomicalTableRow {
+  id: string;
+  location: string;
+  // Local midnight of the calendar date
+  date: Date;
+  // Seconds
+  dayLength: number;
+  // Null in polar day or night
+  sunrise: Date | null;
+  sunset: Date | null;
+  // Display timezone, undefined for the viewer's own
+  timeZone: string | undefined;
+  morningTwilight: (string | null)[];
+  eveningTwilight: (string | null)[];
+  goldenHour: string | null;
+  issNextPass: string | null;
+  latitude: number;
+  longitude: number;
+  source: string;
+}
+
+export const toTableRow = (
+  item: AstronomicalTableSource,
+  timeMode: TimeDisplayMode
+): AstronomicalTableRow => {
+  const timeZone = displayTimeZone(timeMode, item);
+
+  return {
+    id: item.id,
+    location: item.location,
+    date: parseISO(item.date),
+    dayLength: item.day_length,
+    sunrise: item.sunrise ? new Date(item.sunrise) : null,
+    sunset: item.sunset ? new Date(item.sunset) : null,
+    timeZone,
+    morningTwilight: [
+      item.astronomical_twilight_begin ?? null,
+      item.nautical_twilight_begin ?? null,
+      item.civil_twilight_begin ?? null,
+    ],
+    eveningTwilight: [
+      item.civil_twilight_end ?? null,
+      item.nautical_twilight_end ?? null,
+      item.astronomical_twilight_end ?? null,
+    ],
+    goldenHour: item.golden_hour ?? null,
+    issNextPass: item.iss_next_pass ?? null,
+    latitude: item.latitude,
+    longitude: item.longitude,
+    source: item.source,
+  };
+};
@@ -0,0 +1,171 @@
+// Parses coordinates typed or pasted by hand: decimal degrees ("-33.8688"),
+// degrees with decimal minutes or with minutes and seconds
+// ("33°52'07.7\"S", "33 52.13 S") and pairs of either ("48.8566, 2.3522",
+// "48°51′N 2°21′E").
+
+export type CoordinateAxis = "latitude" | "longitude";
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export interface ParseResult<T> {
+  value: T | null;
+  // Why the text couldn't be read, for showing next to the input
+  error: string | null;
+}
+
+const LIMITS: Record<CoordinateAxis, number> = { latitude: 90, longitude: 180 };
+
+const HEMISPHERES: Record<CoordinateAxis, Record<string, 1 | -1>> = {
+  latitude: { N: 1, S: -1 },
+  longitude: { E: 1, W: -1 },
+};
+
+const EARTH_RADIUS_KM = 6371;
+
+// Degrees, then optional minutes and seconds, separated by symbols,
+// spaces or colons
+const DMS_PATTERN =
+  /^(\d+(?:\.\d+)?)\s*(?:°|:)?\s*(?:(\d+(?:\.\d+)?)\s*(?:'|:)?\s*(?:(\d+(?:\.\d+)?)\s*(?:"|'')?)?)?$/;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+const failure = <T>(error: string): ParseResult<T> => ({ value: null, error });
+
+// Typographic primes and the ordinal sign some keyboards use for degrees
+const normalizeSymbols = (text: string) =>
+  text
+    .replace(/[º˚]/g, "°")
+    .replace(/[′‘’´`]/g, "'")
+    .replace(/[″“”]/g, '"')
+    .trim();
+
+/** Reads one latitude or longitude in decimal or DMS notation. */
+export const parseCoordinate = (
+  text: string,
+  axis: CoordinateAxis
+): ParseResult<number> => {
+  let rest = normalizeSymbols(text).toUpperCase();
+  if (!rest) return failure(`Enter a ${axis}`);
+
+  let hemisphere: string | null = null;
+  const hemisphereMatch =
+    rest.match(/^([NSEW])\s*(.*)$/) ?? rest.match(/^(.*?)\s*([NSEW])$/);
+  if (hemisphereMatch) {
+    const leading = /^[NSEW]/.test(rest);
+    hemisphere = leading ? hemisphereMatch[1] : hemisphereMatch[2];
+    rest = leading ? hemisphereMatch[2] : hemisphereMatch[1];
+  }
+
+  if (hemisphere && !(hemisphere in HEMISPHERES[axis])) {
+    return failure(
+      `${hemisphere} is not a ${axis} direction; use ${Object.keys(
+        HEMISPHERES[axis]
+      ).join(" or ")}`
+    );
+  }
+
+  let sign = 1;
+  if (/^[-+]/.test(rest)) {
+    if (hemisphere) {
+      return failure("Use either a sign or a direction, not both");
+    }
+    sign = rest.startsWith("-") ? -1 : 1;
+    rest = rest.slice(1).trim();
+  }
+
+  const match = rest.match(DMS_PATTERN);
+  if (!match) return failure(`Could not read "${text.trim()}" as a ${axis}`);
+
+  const [degrees, minutes, seconds] = [
+    match[1],
+    match[2] ?? "0",
+    match[3] ?? "0",
+  ].map(Number);
+  if (minutes >= 60 || seconds >= 60) {
+    return failure("Minutes and seconds must be below 60");
+  }
+  if (
+    (match[2] !== undefined && !Number.isInteger(degrees)) ||
+    (match[3] !== undefined && !Number.isInteger(minutes))
+  ) {
+    return failure(
+      "Only the last of degrees, minutes and seconds may have decimals"
+    );
+  }
+
+  const value =
+    (degrees + minutes / 60 + seconds / 3600) *
+    (hemisphere ? HEMISPHERES[axis][hemisphere] : sign);
+  if (Math.abs(value) > LIMITS[axis]) {
+    return failure(
+      `A ${axis} must be between -${LIMITS[axis]} and ${LIMITS[axis]}`
+    );
+  }
+
+  return { value, error: null };
+};
+
+// Splits a pasted pair into its two halves, or null if it isn't one
+const splitPair = (text: string): [string, string] | null => {
+  const separated = text.split(/\s*[,;\t/]\s*/).filter(Boolean);
+  if (separated.length === 2) return [separated[0], separated[1]];
+
+  // "48°51′N 2°21′E" or "N 48 51 E 2 21"
+  const byDirection =
+    text.match(/^(.*?[NS])\s+(.*[EW])$/i) ??
+    text.match(/^(.*?[EW])\s+(.*[NS])$/i) ??
+    text.match(/^([NS].*?)\s+([EW].*)$/i) ??
+    text.match(/^([EW].*?)\s+([NS].*)$/i);
+  if (byDirection) return [byDirection[1], byDirection[2]];
+
+  const numbers = text.split(/\s+/);
+  if (numbers.length === 2) return [numbers[0], numbers[1]];
+
+  return null;
+};
+
+/**
+ * Reads a latitude and longitude pasted together, latitude first unless
+ * directions say otherwise ("2.35 E, 48.86 N").
+ */
+export const parseCoordinatePair = (text: string): ParseResult<Coordinates> => {
+  const normalized = normalizeSymbols(text);
+  const pair = splitPair(normalized);
+  if (!pair) {
+    return failure('Enter a latitude and longitude, e.g. "48.8566, 2.3522"');
+  }
+
+  const [first, second] = /[EW]\s*$|^\s*[EW]/i.test(pair[0])
+    ? [pair[1], pair[0]]
+    : pair;
+  const latitude = parseCoordinate(first, "latitude");
+  if (latitude.error) return failure(latitude.error);
+  const longitude = parseCoordinate(second, "longitude");
+  if (longitude.error) return failure(longitude.error);
+
+  return {
+    value: { latitude: latitude.value, longitude: longitude.value },
+    error: null,
+  };
+};
+
+/** "48.8566° N, 2.3522° E" */
+export const formatCoordinateLabel = (latitude: number, longitude: number) =>
+  `${Math.abs(latitude).toFixed(4)}° ${latitude < 0 ? "S" : "N"}, ${Math.abs(
+    longitude
+  ).toFixed(4)}° ${longitude < 0 ? "W" : "E"}`;
+
+/** Great-circle distance between two points, in kilometres. */
+export const distanceKm = (a: Coordinates, b: Coordinates) => {
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLng = toRadians(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) *
+      Math.cos(toRadians(b.latitude)) *
+      Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+};
@@ -0,0 +1,21 @@
+// Calendar dates as "yyyy-MM-dd" strings, read from files and URLs.
+
+import { ParseResult } from "./coordinates";
+
+/**
+ * A date that exists, as "yyyy-MM-dd". Accepts slashes, single-digit
+ * months and days and a trailing time; "2026-02-30" is refused.
+ */
+export const parseDate = (value: string): ParseResult<string> => {
+  const match = value.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})(?:[T ].*)?$/);
+  if (!match) {
+    return { value: null, error: `Date "${value}" isn't in yyyy-MM-dd form` };
+  }
+
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return { value: null, error: `Date "${value}" doesn't exist` };
+  }
+  return { value: date.toISOString().slice(0, 10), error: null };
+};
@@ -0,0 +1,141 @@
+// Day, twilight and night at a given instant: computed from the sun's
+// position anywhere on Earth, or read from a location's stored sun times.
+
+import { TWILIGHT_FIELDS, TwilightTimes } from "@/services/providers/types";
+import { getSubsolarPoint, solarAltitudeAt, SUNRISE_ALTITUDE } from "./solar";
+
+export type DaylightPhase =
+  | "day"
+  | "civil"
+  | "nautical"
+  | "astronomical"
+  | "night";
+
+// Phases from brightest to darkest, with the solar altitude each starts
+// below
+export const DAYLIGHT_PHASES: {
+  value: DaylightPhase;
+  label: string;
+  color: string;
+  altitude: number;
+}[] = [
+  { value: "day", label: "Daylight", color: "#facc15", altitude: 90 },
+  {
+    value: "civil",
+    label: "Civil twilight",
+    color: "#818cf8",
+    altitude: SUNRISE_ALTITUDE,
+  },
+  {
+    value: "nautical",
+    label: "Nautical twilight",
+    color: "#4f46e5",
+    altitude: -6,
+  },
+  {
+    value: "astronomical",
+    label: "Astronomical twilight",
+    color: "#3730a3",
+    altitude: -12,
+  },
+  { value: "night", label: "Night", color: "#1e293b", altitude: -18 },
+];
+
+export interface SunTimesRow extends TwilightTimes {
+  date: string;
+  sunrise: string | null;
+  sunset: string | null;
+  solar_noon: string;
+  day_length: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+export const phaseForAltitude = (altitude: number): DaylightPhase => {
+  let phase: DaylightPhase = "day";
+  DAYLIGHT_PHASES.forEach((item) => {
+    if (altitude < item.altitude) phase = item.value;
+  });
+  return phase;
+};
+
+/** The phase at a point and instant, from the sun's computed position. */
+export const computePhase = (latitude: number, longitude: number, time: Date) =>
+  phaseForAltitude(solarAltitudeAt(time)(latitude, longitude));
+
+const timeOf = (value: string | null | undefined) =>
+  value ? new Date(value).getTime() : null;
+
+/**
+ * The phase a stored row reports at `time`, or null when the row doesn't
+ * cover the instant or lacks the times to tell. A row covers the 24 hours
+ * centred on its solar noon.
+ */
+export const storedPhase = (
+  row: SunTimesRow,
+  time: Date
+): DaylightPhase | null => {
+  const t = time.getTime();
+  const noon = timeOf(row.solar_noon);
+  if (noon === null || Math.abs(t - noon) > 12 * HOUR_MS) return null;
+
+  // Midnight sun has no sunrise or sunset
+  if (!row.sunrise && !row.sunset && row.day_length >= 86400) return "day";
+
+  // Rows collected before twilight was stored only know day from not-day
+  const hasTwilight = TWILIGHT_FIELDS.some((field) => row[field]);
+  const windows: [
+    DaylightPhase,
+    string | null | undefined,
+    string | null | undefined
+  ][] = [
+    ["day", row.sunrise, row.sunset],
+    ["civil", row.civil_twilight_begin, row.civil_twilight_end],
+    ["nautical", row.nautical_twilight_begin, row.nautical_twilight_end],
+    [
+      "astronomical",
+      row.astronomical_twilight_begin,
+      row.astronomical_twilight_end,
+    ],
+  ];
+
+  // Each phase's window contains the brighter ones. A window without times
+  // after one with them is the sun never dropping that low: it lasts all
+  // night.
+  let brighterKnown = false;
+  for (const [phase, begin, end] of windows) {
+    const start = timeOf(begin);
+    const finish = timeOf(end);
+    if (start !== null && finish !== null) {
+      if (start <= t && t < finish) return phase;
+      brighterKnown = true;
+    } else if (brighterKnown && hasTwilight) {
+      return phase;
+    }
+    if (phase === "day" && !hasTwilight) return null;
+  }
+
+  return brighterKnown && hasTwilight ? "night" : null;
+};
+
+/**
+ * Points along the terminator, where the sun's centre is on the horizon,
+ * from 180° W to 180° E every `step` degrees of longitude.
+ */
+export const terminatorPoints = (time: Date, step = 2) => {
+  const subsolar = getSubsolarPoint(time);
+  const tanDeclination = Math.tan(toRadians(subsolar.latitude));
+
+  const points: { latitude: number; longitude: number }[] = [];
+  for (let longitude = -180; longitude <= 180; longitude += step) {
+    const hourAngle = toRadians(longitude - subsolar.longitude);
+    points.push({
+      latitude: toDegrees(Math.atan(-Math.cos(hourAngle) / tanDeclination)),
+      longitude,
+    });
+  }
+  return points;
+};
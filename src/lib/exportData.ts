@@ -0,0 +1,233 @@
+// Serialises astronomical data rows for download as CSV, JSON Lines or
+// Parquet, entirely in the browser.
+
+import type { BasicType, ColumnSource } from "hyparquet-writer";
+import { Tables } from "@/integrations/supabase/types";
+import { displayTimeZone, formatIsoInTimeZone } from "./timezone";
+
+export type ExportFormat = "csv" | "jsonl" | "parquet";
+
+// Timestamps in UTC, or with the offset of the location's timezone
+export type ExportTimeMode = "utc" | "local";
+
+export type ExportRow = Tables<"astronomical_data">;
+
+export const EXPORT_FORMATS: {
+  value: ExportFormat;
+  label: string;
+  extension: string;
+  mimeType: string;
+}[] = [
+  { value: "csv", label: "CSV", extension: "csv", mimeType: "text/csv" },
+  {
+    value: "jsonl",
+    label: "JSON Lines",
+    extension: "jsonl",
+    mimeType: "application/x-ndjson",
+  },
+  {
+    value: "parquet",
+    label: "Parquet",
+    extension: "parquet",
+    mimeType: "application/vnd.apache.parquet",
+  },
+];
+
+type ColumnKind = "text" | "number" | "integer" | "time";
+
+export interface ExportColumn {
+  key: keyof ExportRow;
+  label: string;
+  kind: ColumnKind;
+  // Selected when the export dialog opens
+  selected: boolean;
+}
+
+export const EXPORT_COLUMNS: ExportColumn[] = [
+  { key: "location", label: "Location", kind: "text", selected: true },
+  { key: "country", label: "Country", kind: "text", selected: false },
+  { key: "latitude", label: "Latitude", kind: "number", selected: true },
+  { key: "longitude", label: "Longitude", kind: "number", selected: true },
+  { key: "date", label: "Date", kind: "text", selected: true },
+  { key: "timezone", label: "Time zone", kind: "text", selected: true },
+  { key: "sunrise", label: "Sunrise", kind: "time", selected: true },
+  { key: "sunset", label: "Sunset", kind: "time", selected: true },
+  { key: "solar_noon", label: "Solar noon", kind: "time", selected: true },
+  {
+    key: "day_length",
+    label: "Day length (s)",
+    kind: "integer",
+    selected: true,
+  },
+  {
+    key: "civil_twilight_begin",
+    label: "Civil twilight begin",
+    kind: "time",
+    selected: false,
+  },
+  {
+    key: "civil_twilight_end",
+    label: "Civil twilight end",
+    kind: "time",
+    selected: false,
+  },
+  {
+    key: "nautical_twilight_begin",
+    label: "Nautical twilight begin",
+    kind: "time",
+    selected: false,
+  },
+  {
+    key: "nautical_twilight_end",
+    label: "Nautical twilight end",
+    kind: "time",
+    selected: false,
+  },
+  {
+    key: "astronomical_twilight_begin",
+    label: "Astronomical twilight begin",
+    kind: "time",
+    selected: false,
+  },
+  {
+    key: "astronomical_twilight_end",
+    label: "Astronomical twilight end",
+    kind: "time",
+    selected: false,
+  },
+  { key: "first_light", label: "First light", kind: "time", selected: false },
+  { key: "last_light", label: "Last light", kind: "time", selected: false },
+  { key: "golden_hour", label: "Golden hour", kind: "time", selected: false },
+  { key: "iss_passes", label: "ISS passes", kind: "integer", selected: false },
+  {
+    key: "iss_next_pass",
+    label: "Next ISS pass",
+    kind: "time",
+    selected: false,
+  },
+  {
+    key: "people_in_space",
+    label: "People in space",
+    kind: "integer",
+    selected: false,
+  },
+  { key: "source", label: "Source", kind: "text", selected: true },
+  { key: "created_at", label: "Collected at", kind: "time", selected: false },
+  { key: "id", label: "ID", kind: "text", selected: false },
+];
+
+const cellValue = (
+  row: ExportRow,
+  column: ExportColumn,
+  timeMode: ExportTimeMode
+): string | number | null => {
+  const value = row[column.key] as string | number | null | undefined;
+  if (value === null || value === undefined) return null;
+  if (column.kind !== "time") return value;
+
+  const time = String(value);
+  return timeMode === "utc"
+    ? new Date(time).toISOString()
+    : formatIsoInTimeZone(time, displayTimeZone("location", row));
+};
+
+const csvField = (value: string | number | null) => {
+  if (value === null) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (
+  rows: ExportRow[],
+  columns: ExportColumn[],
+  timeMode: ExportTimeMode
+) =>
+  [
+    columns.map((column) => column.key).join(","),
+    ...rows.map((row) =>
+      columns
+        .map((column) => csvField(cellValue(row, column, timeMode)))
+        .join(",")
+    ),
+  ].join("\r\n") + "\r\n";
+
+const toJsonLines = (
+  rows: ExportRow[],
+  columns: ExportColumn[],
+  timeMode: ExportTimeMode
+) =>
+  rows
+    .map((row) =>
+      JSON.stringify(
+        Object.fromEntries(
+          columns.map((column) => [
+            column.key,
+            cellValue(row, column, timeMode),
+          ])
+        )
+      )
+    )
+    .join("\n") + "\n";
+
+// UTC times become Parquet timestamps; local ones stay strings so their
+// offset survives
+const parquetType = (kind: ColumnKind, timeMode: ExportTimeMode): BasicType => {
+  if (kind === "number") return "DOUBLE";
+  if (kind === "integer") return "INT32";
+  if (kind === "time" && timeMode === "utc") return "TIMESTAMP";
+  return "STRING";
+};
+
+// The writer is only needed for Parquet, so it's loaded on demand
+const toParquet = async (
+  rows: ExportRow[],
+  columns: ExportColumn[],
+  timeMode: ExportTimeMode
+) => {
+  const { parquetWriteBuffer } = await import("hyparquet-writer");
+
+  const columnData: ColumnSource[] = columns.map((column) => {
+    const type = parquetType(column.kind, timeMode);
+    return {
+      name: column.key,
+      type,
+      nullable: true,
+      data: rows.map((row) => {
+        const value = cellValue(row, column, timeMode);
+        return type === "TIMESTAMP" && value !== null ? new Date(value) : value;
+      }),
+    };
+  });
+
+  return parquetWriteBuffer({ columnData });
+};
+
+/** The rows as a file in `format`, with only the given columns. */
+export const buildExport = async (
+  rows: ExportRow[],
+  columns: ExportColumn[],
+  format: ExportFormat,
+  timeMode: ExportTimeMode
+) => {
+  const { mimeType } = EXPORT_FORMATS.find((item) => item.value === format);
+
+  if (format === "parquet") {
+    return new Blob([await toParquet(rows, columns, timeMode)], {
+      type: mimeType,
+    });
+  }
+
+  const text =
+    format === "csv"
+      ? toCsv(rows, columns, timeMode)
+      : toJsonLines(rows, columns, timeMode);
+  return new Blob([text], { type: mimeType });
+};
+
+/** File name for an export made now, e.g. "astronomical-data-2026-10-19.csv". */
+export const exportFileName = (format: ExportFormat) => {
+  const { extension } = EXPORT_FORMATS.find((item) => item.value === format);
+  return `astronomical-data-${new Date()
+    .toISOString()
+    .slice(0, 10)}.${extension}`;
+};
@@ -0,0 +1,294 @@
+// Offline search over the bundled world-cities gazetteer
+// (src/data/world-cities.json, built by scripts/build-gazetteer.mjs).
+// Names are compared accent- and case-insensitively: a query matches a city
+// exactly or as the start of its name, with one typo from four letters and
+// two from eight ("Tokoy", "Nwe York" for New York City). A name is never
+// matched by a query that merely contains it, so "New York Mills" doesn't
+// find New York.
+
+import { Coordinates, distanceKm } from "./coordinates";
+
+export interface GazetteerData {
+  minPopulation: number;
+  countries: Record<string, string>;
+  regions: string[];
+  // [name, country code, latitude, longitude, index in regions if known],
+  // most populous first
+  cities: [string, string, number, number, number?][];
+}
+
+export interface GazetteerCity {
+  name: string;
+  // State, province or similar
+  region: string | null;
+  country: string;
+  countryCode: string;
+  // Another city of the same region has the same name
+  namesake: boolean;
+  latitude: number;
+  longitude: number;
+  // 0 for the most populous
+  rank: number;
+}
+
+export interface GazetteerMatch extends GazetteerCity {
+  // Higher is better; about 1 for an exact match
+  score: number;
+}
+
+export interface GazetteerIndex {
+  cities: GazetteerCity[];
+  names: string[];
+  regions: string[];
+  countries: string[];
+  trigrams: Map<string, number[]>;
+}
+
+// Letters NFD doesn't split into a base letter and an accent
+const SPECIAL_LETTERS: Record<string, string> = {
+  ß: "ss",
+  æ: "ae",
+  œ: "oe",
+  ø: "o",
+  ł: "l",
+  đ: "d",
+  ð: "d",
+  þ: "th",
+  ı: "i",
+};
+
+// Ranking weight of population, so the larger of two namesakes comes first
+const POPULATION_WEIGHT = 0.05;
+
+const COUNTRY_ALIASES: Record<string, string> = {
+  usa: "US",
+  "united states of america": "US",
+  america: "US",
+  uk: "GB",
+  "great britain": "GB",
+  england: "GB",
+  scotland: "GB",
+  wales: "GB",
+};
+
+/** Lower case without accents or punctuation: "São Paulo" -> "sao paulo". */
+export const foldText = (text: string) =>
+  text
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[ßæœøłđðþı]/g, (letter) => SPECIAL_LETTERS[letter])
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+
+const trigramsOf = (text: string) => {
+  const padded = `  ${text} `;
+  const result = new Set<string>();
+  for (let i = 0; i < padded.length - 2; i++) {
+    result.add(padded.slice(i, i + 3));
+  }
+  return result;
+};
+
+// Typos a query of this length may have
+const allowedTypos = (length: number) =>
+  length >= 8 ? 2 : length >= 4 ? 1 : 0;
+
+// Insertions, deletions, substitutions and swaps of neighbouring letters
+const editDistance = (a: string, b: string) => {
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+      }
+    }
+    beforePrevious = previous;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+export const createGazetteerIndex = (data: GazetteerData): GazetteerIndex => {
+  const cities = data.cities.map(
+    ([name, countryCode, latitude, longitude, region], rank) => ({
+      name,
+      region: data.regions[region] ?? null,
+      country: data.countries[countryCode] ?? countryCode,
+      countryCode,
+      namesake: false,
+      latitude,
+      longitude,
+      rank,
+    })
+  );
+  const names = cities.map((city) => foldText(city.name));
+
+  const seen = new Map<string, GazetteerCity>();
+  cities.forEach((city) => {
+    const key = `${city.name}|${city.region}|${city.countryCode}`;
+    const first = seen.get(key);
+    if (first) {
+      first.namesake = true;
+      city.namesake = true;
+    } else {
+      seen.set(key, city);
+    }
+  });
+
+  const trigrams = new Map<string, number[]>();
+  names.forEach((name, id) => {
+    trigramsOf(name).forEach((trigram) => {
+      const ids = trigrams.get(trigram);
+      if (ids) ids.push(id);
+      else trigrams.set(trigram, [id]);
+    });
+  });
+
+  return {
+    cities,
+    names,
+    regions: cities.map((city) => foldText(city.region ?? "")),
+    countries: cities.map((city) => foldText(city.country)),
+    trigrams,
+  };
+};
+
+// How well a folded name matches the folded query, or 0 for no match
+const nameScore = (name: string, query: string) => {
+  const prefixScore = 0.7 + 0.2 * (query.length / name.length);
+  if (name === query) return 1;
+  if (name.startsWith(query)) return prefixScore;
+
+  const typos = allowedTypos(query.length);
+  if (typos === 0) return 0;
+
+  if (Math.abs(name.length - query.length) <= typos) {
+    const distance = editDistance(name, query);
+    if (distance <= typos) return 0.8 * (1 - distance / query.length);
+  }
+  if (name.length <= query.length) return 0;
+
+  // A mistyped start of a longer name, which may be a letter or two
+  // shorter or longer than the query
+  const distance = Math.min(
+    ...[-2, -1, 0, 1, 2].map((change) =>
+      editDistance(name.slice(0, query.length + change), query)
+    )
+  );
+  return distance <= typos
+    ? 0.8 * prefixScore * (1 - distance / query.length)
+    : 0;
+};
+
+const qualifierMatches = (
+  index: GazetteerIndex,
+  id: number,
+  qualifier: string
+) =>
+  // "Texas" or a whole label's "Texas, United States"
+  (index.regions[id] !== "" &&
+    (index.regions[id].startsWith(qualifier) ||
+      qualifier.startsWith(index.regions[id]))) ||
+  index.countries[id].startsWith(qualifier) ||
+  index.cities[id].countryCode.toLowerCase() === qualifier ||
+  COUNTRY_ALIASES[qualifier] === index.cities[id].countryCode;
+
+/**
+ * Cities matching the query, best first. Text after the first comma
+ * ("Paris, France" or "Paris, Texas") favours cities in a matching region
+ * or country.
+ */
+export const searchGazetteer = (
+  index: GazetteerIndex,
+  query: string,
+  limit = 5
+): GazetteerMatch[] => {
+  const [place, ...rest] = query.split(",");
+  const name = foldText(place);
+  const qualifier = foldText(rest.join(" "));
+  if (!name) return [];
+
+  // Names starting with the query, plus names sharing enough trigrams with
+  // it to be worth an edit distance. A typo changes at most four of them,
+  // when it swaps two letters.
+  const candidates = new Set<number>();
+  index.names.forEach((candidate, id) => {
+    if (candidate.startsWith(name)) candidates.add(id);
+  });
+
+  const queryTrigrams = trigramsOf(name);
+  const shared = new Map<number, number>();
+  queryTrigrams.forEach((trigram) => {
+    index.trigrams.get(trigram)?.forEach((id) => {
+      shared.set(id, (shared.get(id) ?? 0) + 1);
+    });
+  });
+  const minShared = Math.max(
+    1,
+    queryTrigrams.size - 4 * allowedTypos(name.length)
+  );
+  shared.forEach((count, id) => {
+    if (count >= minShared) candidates.add(id);
+  });
+
+  const matches: GazetteerMatch[] = [];
+  candidates.forEach((id) => {
+    let score = nameScore(index.names[id], name);
+    if (score === 0) return;
+
+    if (qualifier) {
+      score *= qualifierMatches(index, id, qualifier) ? 1.2 : 0.8;
+    }
+    score += POPULATION_WEIGHT * (1 - id / index.cities.length);
+
+    matches.push({ ...index.cities[id], score });
+  });
+
+  return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+};
+
+/** The city closest to a point, if one is within `maxKm`. */
+export const nearestGazetteerCity = (
+  index: GazetteerIndex,
+  point: Coordinates,
+  maxKm: number
+): GazetteerCity | null => {
+  let nearest: GazetteerCity | null = null;
+  let nearestKm = maxKm;
+  for (const city of index.cities) {
+    // Cheap bounding box check before the exact distance; a degree of
+    // latitude is about 111 km
+    if (Math.abs(city.latitude - point.latitude) > maxKm / 111) continue;
+
+    const km = distanceKm(point, city);
+    if (km <= nearestKm) {
+      nearest = city;
+      nearestKm = km;
+    }
+  }
+  return nearest;
+};
+
+let loading: Promise<GazetteerIndex> | null = null;
+
+/** The bundled gazetteer, loaded and indexed on first use. */
+export const loadGazetteer = () => {
+  if (!loading) {
+    loading = import("@/data/world-cities.json").then((module) =>
+      createGazetteerIndex(module.default as unknown as GazetteerData)
+    );
+    // Let a failed load be retried
+    loading.catch(() => {
+      loading = null;
+    });
+  }
+  return loading;
+};
@@ -0,0 +1,459 @@
+// Builds iCalendar (RFC 5545) files of a location's sun events: sunrise,
+// sunset and the golden hour, blue hour and civil twilight periods around
+// them, in the location's timezone with a matching VTIMEZONE.
+
+import { getSolarEventTime, SUNRISE_ALTITUDE } from "./solar";
+import {
+  formatIsoInTimeZone,
+  timeZoneLabel,
+  utcOffsetMinutes,
+} from "./timezone";
+
+export type SunEventKind =
+  | "sunrise"
+  | "sunset"
+  | "golden_hour"
+  | "blue_hour"
+  | "civil_twilight";
+
+export const SUN_EVENT_KINDS: {
+  value: SunEventKind;
+  label: string;
+  description: string;
+}[] = [
+  { value: "sunrise", label: "Sunrise", description: "Upper limb at horizon" },
+  { value: "sunset", label: "Sunset", description: "Upper limb at horizon" },
+  {
+    value: "golden_hour",
+    label: "Golden hour",
+    description: "Sun between -4° and 6°",
+  },
+  {
+    value: "blue_hour",
+    label: "Blue hour",
+    description: "Sun between -6° and -4°",
+  },
+  {
+    value: "civil_twilight",
+    label: "Civil twilight",
+    description: "From -6° to sunrise and sunset to -6°",
+  },
+];
+
+export const DEFAULT_SUN_EVENTS: SunEventKind[] = [
+  "sunrise",
+  "sunset",
+  "golden_hour",
+  "blue_hour",
+];
+
+// Sun altitudes bounding the periods
+const GOLDEN_HOUR_HIGH = 6;
+const GOLDEN_HOUR_LOW = -4;
+const CIVIL_TWILIGHT = -6;
+
+// Stored times that replace computed ones when a row is available
+export interface SunCalendarRow {
+  date: string;
+  sunrise: string | null;
+  sunset: string | null;
+  civil_twilight_begin?: string | null;
+  civil_twilight_end?: string | null;
+  golden_hour?: string | null;
+}
+
+export interface SunCalendarOptions {
+  location: string;
+  latitude: number;
+  longitude: number;
+  timeZone: string;
+  // Inclusive "yyyy-MM-dd" bounds
+  dateFrom: string;
+  dateTo: string;
+  events: SunEventKind[];
+  // Minutes before each event to remind, or null for no reminder
+  alarmMinutes: number | null;
+}
+
+interface SunEvent {
+  kind: SunEventKind;
+  // Distinguishes the morning and evening periods of a kind
+  part: "morning" | "evening" | "day";
+  summary: string;
+  start: Date;
+  // Unset for instants
+  end?: Date;
+}
+
+const PRODUCT_ID = "-//Astronomical Data Explorer//Sun Calendar//EN";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const escapeText = (text: string) =>
+  text.replace(/([\\;,])/g, "\\$1").replace(/\r?\n/g, "\\n");
+
+// Lines are folded at 75 octets, without splitting a UTF-8 sequence
+const foldLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const lines: string[] = [];
+  let current = "";
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = lines.length ? 74 : 75;
+    if (octets + size > limit) {
+      lines.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  lines.push(current);
+
+  return lines.join("\r\n ");
+};
+
+// "20260621T054712" in the zone's wall-clock time
+const localDateTime = (time: Date, timeZone: string) =>
+  formatIsoInTimeZone(time, timeZone).slice(0, 19).replace(/[-:]/g, "");
+
+const utcDateTime = (time: Date) =>
+  time.toISOString().slice(0, 19).replace(/[-:]/g, "") + "Z";
+
+// "+0200"
+const formatOffset = (minutes: number) => {
+  const hours = String(Math.floor(Math.abs(minutes) / 60)).padStart(2, "0");
+  const rest = String(Math.abs(minutes) % 60).padStart(2, "0");
+  return `${minutes < 0 ? "-" : "+"}${hours}${rest}`;
+};
+
+// Instants between `from` and `to` at which the zone's offset changes,
+// found day by day and then narrowed down to the minute
+const offsetTransitions = (timeZone: string, from: number, to: number) => {
+  const transitions: number[] = [];
+  let previous = utcOffsetMinutes(new Date(from), timeZone);
+
+  for (
+    let time = from + MS_PER_DAY;
+    time <= to + MS_PER_DAY;
+    time += MS_PER_DAY
+  ) {
+    const offset = utcOffsetMinutes(new Date(time), timeZone);
+    if (offset === previous) continue;
+
+    let low = time - MS_PER_DAY;
+    let high = time;
+    while (high - low > 60000) {
+      const middle = low + Math.floor((high - low) / 120000) * 60000;
+      if (utcOffsetMinutes(new Date(middle), timeZone) === previous) {
+        low = middle;
+      } else {
+        high = middle;
+      }
+    }
+    transitions.push(high);
+    previous = offset;
+  }
+
+  return transitions;
+};
+
+// The lower of the January and July offsets is the zone's standard time
+const isDaylightTime = (time: number, offset: number, timeZone: string) => {
+  const year = new Date(time).getUTCFullYear();
+  const standard = Math.min(
+    utcOffsetMinutes(new Date(Date.UTC(year, 0, 1)), timeZone),
+    utcOffsetMinutes(new Date(Date.UTC(year, 6, 1)), timeZone)
+  );
+  return offset > standard;
+};
+
+/**
+ * VTIMEZONE lines describing `timeZone` between two instants: the
+ * observance in force at `from`, then one per offset change, so calendars
+ * place every event as the Intl database does.
+ */
+export const vtimezoneLines = (timeZone: string, from: Date, to: Date) => {
+  const start = from.getTime();
+  const initialOffset = utcOffsetMinutes(from, timeZone);
+
+  const observance = (
+    time: number,
+    offsetFrom: number,
+    offsetTo: number,
+    dtstart: string
+  ) => {
+    const type = isDaylightTime(time, offsetTo, timeZone)
+      ? "DAYLIGHT"
+      : "STANDARD";
+    return [
+      `BEGIN:${type}`,
+      `DTSTART:${dtstart}`,
+      `TZOFFSETFROM:${formatOffset(offsetFrom)}`,
+      `TZOFFSETTO:${formatOffset(offsetTo)}`,
+      `TZNAME:${escapeText(timeZoneLabel(new Date(time), timeZone))}`,
+      `END:${type}`,
+    ];
+  };
+
+  const lines = [
+    "BEGIN:VTIMEZONE",
+    `TZID:${timeZone}`,
+    ...observance(start, initialOffset, initialOffset, "19700101T000000"),
+  ];
+
+  let offset = initialOffset;
+  offsetTransitions(timeZone, start, to.getTime()).forEach((time) => {
+    const next = utcOffsetMinutes(new Date(time), timeZone);
+    // DTSTART is the wall-clock time just before the change
+    const dtstart = new Date(time + offset * 60000)
+      .toISOString()
+      .slice(0, 19)
+      .replace(/[-:]/g, "");
+    lines.push(...observance(time, offset, next, dtstart));
+    offset = next;
+  });
+
+  lines.push("END:VTIMEZONE");
+  return lines;
+};
+
+const eachDate = (dateFrom: string, dateTo: string) => {
+  const dates: string[] = [];
+  const end = Date.parse(`${dateTo}T00:00:00Z`);
+  for (
+    let time = Date.parse(`${dateFrom}T00:00:00Z`);
+    time <= end;
+    time += MS_PER_DAY
+  ) {
+    dates.push(new Date(time).toISOString().slice(0, 10));
+  }
+  return dates;
+};
+
+const storedTime = (value: string | null | undefined) =>
+  value ? new Date(value) : null;
+
+/**
+ * The date's events, from the stored row where it has the time and
+ * computed otherwise. A period whose upper altitude the sun never reaches
+ * becomes one event spanning the day; one the sun never drops below is
+ * left out.
+ */
+const sunEventsForDate = (
+  options: SunCalendarOptions,
+  date: string,
+  row: SunCalendarRow | undefined
+): SunEvent[] => {
+  const { latitude, longitude } = options;
+  const computed = (altitude: number, rising: boolean) =>
+    getSolarEventTime(latitude, longitude, date, altitude, rising);
+  const crossing = (
+    altitude: number,
+    rising: boolean,
+    stored?: string | null
+  ) => storedTime(stored) ?? computed(altitude, rising);
+
+  const sunrise = crossing(SUNRISE_ALTITUDE, true, row?.sunrise);
+  const sunset = crossing(SUNRISE_ALTITUDE, false, row?.sunset);
+
+  const period = (
+    kind: SunEventKind,
+    label: string,
+    low: [Date | null, Date | null],
+    high: [Date | null, Date | null]
+  ): SunEvent[] => {
+    const [lowRising, lowSetting] = low;
+    const [highRising, highSetting] = high;
+    if (!lowRising || !lowSetting) return [];
+    if (!highRising || !highSetting) {
+      return [
+        {
+          kind,
+          part: "day",
+          summary: label,
+          start: lowRising,
+          end: lowSetting,
+        },
+      ];
+    }
+    return [
+      {
+        kind,
+        part: "morning",
+        summary: `Morning ${label.toLowerCase()}`,
+        start: lowRising,
+        end: highRising,
+      },
+      {
+        kind,
+        part: "evening",
+        summary: `Evening ${label.toLowerCase()}`,
+        start: highSetting,
+        end: lowSetting,
+      },
+    ];
+  };
+
+  const events: SunEvent[] = [];
+  options.events.forEach((kind) => {
+    if (kind === "sunrise" && sunrise) {
+      events.push({
+        kind,
+        part: "morning",
+        summary: "Sunrise",
+        start: sunrise,
+      });
+    }
+    if (kind === "sunset" && sunset) {
+      events.push({ kind, part: "evening", summary: "Sunset", start: sunset });
+    }
+    if (kind === "golden_hour") {
+      events.push(
+        ...period(
+          kind,
+          "Golden hour",
+          [computed(GOLDEN_HOUR_LOW, true), computed(GOLDEN_HOUR_LOW, false)],
+          [
+            computed(GOLDEN_HOUR_HIGH, true),
+            crossing(GOLDEN_HOUR_HIGH, false, row?.golden_hour),
+          ]
+        )
+      );
+    }
+    if (kind === "blue_hour") {
+      events.push(
+        ...period(
+          kind,
+          "Blue hour",
+          [computed(CIVIL_TWILIGHT, true), computed(CIVIL_TWILIGHT, false)],
+          [computed(GOLDEN_HOUR_LOW, true), computed(GOLDEN_HOUR_LOW, false)]
+        )
+      );
+    }
+    if (kind === "civil_twilight") {
+      events.push(
+        ...period(
+          kind,
+          "Civil twilight",
+          [
+            crossing(CIVIL_TWILIGHT, true, row?.civil_twilight_begin),
+            crossing(CIVIL_TWILIGHT, false, row?.civil_twilight_end),
+          ],
+          [sunrise, sunset]
+        )
+      );
+    }
+  });
+
+  return events.sort((a, b) => a.start.getTime() - b.start.getTime());
+};
+
+const slug = (text: string) =>
+  text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+
+/**
+ * An iCalendar file of the sun events at a location over a date range.
+ * Dates with a row in `rows` use its stored times, the rest are computed.
+ * UIDs only depend on the location, date and event, so a calendar
+ * subscribed to the feed updates events in place.
+ */
+export const buildSunCalendar = (
+  options: SunCalendarOptions,
+  rows: SunCalendarRow[] = [],
+  now = new Date()
+) => {
+  const { location, latitude, longitude, timeZone } = options;
+  const byDate: Record<string, SunCalendarRow> = {};
+  rows.forEach((row) => {
+    byDate[row.date] = row;
+  });
+
+  const events = eachDate(options.dateFrom, options.dateTo).flatMap((date) =>
+    sunEventsForDate(options, date, byDate[date]).map((event) => ({
+      date,
+      event,
+    }))
+  );
+
+  const stamp = utcDateTime(now);
+  const locationId = slug(location) || "location";
+  const label = (kind: SunEventKind) =>
+    SUN_EVENT_KINDS.find((item) => item.value === kind).label;
+
+  const eventLines = events.flatMap(({ date, event }) => {
+    const lines = [
+      "BEGIN:VEVENT",
+      `UID:${date}-${event.kind}-${event.part}-${locationId}@astronomical-data-explorer`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;TZID=${timeZone}:${localDateTime(event.start, timeZone)}`,
+    ];
+    if (event.end) {
+      lines.push(
+        `DTEND;TZID=${timeZone}:${localDateTime(event.end, timeZone)}`
+      );
+    }
+    lines.push(
+      `SUMMARY:${escapeText(`${event.summary} – ${location}`)}`,
+      `DESCRIPTION:${escapeText(
+        `${label(event.kind)} at ${location} (${
+          byDate[date] ? "collected data" : "computed"
+        })`
+      )}`,
+      `LOCATION:${escapeText(location)}`,
+      `GEO:${latitude.toFixed(6)};${longitude.toFixed(6)}`,
+      "TRANSP:TRANSPARENT"
+    );
+    if (options.alarmMinutes !== null) {
+      lines.push(
+        "BEGIN:VALARM",
+        "ACTION:DISPLAY",
+        `DESCRIPTION:${escapeText(event.summary)}`,
+        `TRIGGER:-PT${options.alarmMinutes}M`,
+        "END:VALARM"
+      );
+    }
+    lines.push("END:VEVENT");
+    return lines;
+  });
+
+  // The zone has to cover the events, which can fall on the day before
+  // the first date or after the last one in UTC
+  const from = new Date(
+    Date.parse(`${options.dateFrom}T00:00:00Z`) - MS_PER_DAY
+  );
+  const to = new Date(
+    Date.parse(`${options.dateTo}T00:00:00Z`) + 2 * MS_PER_DAY
+  );
+
+  return (
+    [
+      "BEGIN:VCALENDAR",
+      "VERSION:2.0",
+      `PRODID:${PRODUCT_ID}`,
+      "CALSCALE:GREGORIAN",
+      "METHOD:PUBLISH",
+      `X-WR-CALNAME:${escapeText(`Sun times – ${location}`)}`,
+      `X-WR-TIMEZONE:${timeZone}`,
+      "REFRESH-INTERVAL;VALUE=DURATION:P1D",
+      "X-PUBLISHED-TTL:P1D",
+      ...vtimezoneLines(timeZone, from, to),
+      ...eventLines,
+      "END:VCALENDAR",
+    ]
+      .map(foldLine)
+      .join("\r\n") + "\r\n"
+  );
+};
+
+/** File name for a location's calendar, e.g. "sun-times-paris.ics". */
+export const sunCalendarFileName = (location: string) =>
+  `sun-times-${slug(location) || "location"}.ics`;
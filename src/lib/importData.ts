@@ -0,0 +1,614 @@
+// Reads sun time logs from CSV, JSON or JSON Lines files and turns them into
+// astronomical_data rows: guessing which column holds which field, reading
+// day lengths in any of the usual units and times in any timezone, and
+// explaining what's wrong with every row that can't be imported.
+
+import { TablesInsert } from "@/integrations/supabase/types";
+import { ParseResult, parseCoordinate } from "./coordinates";
+import { parseDate } from "./dates";
+import {
+  displayTimeZone,
+  fromZonedTime,
+  isValidTimeZone,
+  secondsSinceMidnight,
+} from "./timezone";
+
+export type ImportValue = string | number | boolean | null;
+export type ImportRecord = Record<string, ImportValue>;
+
+export interface ImportFile {
+  fileName: string;
+  // In order of first appearance
+  columns: string[];
+  records: ImportRecord[];
+}
+
+export type ImportField =
+  | "location"
+  | "country"
+  | "latitude"
+  | "longitude"
+  | "date"
+  | "timezone"
+  | "sunrise"
+  | "sunset"
+  | "solar_noon"
+  | "day_length"
+  | "civil_twilight_begin"
+  | "civil_twilight_end"
+  | "nautical_twilight_begin"
+  | "nautical_twilight_end"
+  | "astronomical_twilight_begin"
+  | "astronomical_twilight_end"
+  | "first_light"
+  | "last_light"
+  | "golden_hour";
+
+export const IMPORT_FIELDS: {
+  field: ImportField;
+  label: string;
+  required: boolean;
+  // Column names it's guessed from, besides its own
+  aliases: string[];
+}[] = [
+  {
+    field: "location",
+    label: "Location",
+    required: true,
+    aliases: ["city", "place", "name", "site"],
+  },
+  {
+    field: "country",
+    label: "Country",
+    required: false,
+    aliases: ["countrycode", "cc"],
+  },
+  {
+    field: "latitude",
+    label: "Latitude",
+    required: true,
+    aliases: ["lat"],
+  },
+  {
+    field: "longitude",
+    label: "Longitude",
+    required: true,
+    aliases: ["lon", "lng", "long"],
+  },
+  {
+    field: "date",
+    label: "Date",
+    required: true,
+    aliases: ["day"],
+  },
+  {
+    field: "timezone",
+    label: "Time zone",
+    required: false,
+    aliases: ["tz", "zone", "timezoneid"],
+  },
+  {
+    field: "sunrise",
+    label: "Sunrise",
+    required: true,
+    aliases: ["rise", "sunrisetime"],
+  },
+  {
+    field: "sunset",
+    label: "Sunset",
+    required: true,
+    aliases: ["set", "sunsettime"],
+  },
+  {
+    field: "solar_noon",
+    label: "Solar noon",
+    required: false,
+    aliases: ["noon", "transit"],
+  },
+  {
+    field: "day_length",
+    label: "Day length",
+    required: false,
+    aliases: ["daylength", "length", "duration", "daylight"],
+  },
+  {
+    field: "civil_twilight_begin",
+    label: "Civil twilight begin",
+    required: false,
+    aliases: ["civildawn", "dawn"],
+  },
+  {
+    field: "civil_twilight_end",
+    label: "Civil twilight end",
+    required: false,
+    aliases: ["civildusk", "dusk"],
+  },
+  {
+    field: "nautical_twilight_begin",
+    label: "Nautical twilight begin",
+    required: false,
+    aliases: ["nauticaldawn"],
+  },
+  {
+    field: "nautical_twilight_end",
+    label: "Nautical twilight end",
+    required: false,
+    aliases: ["nauticaldusk"],
+  },
+  {
+    field: "astronomical_twilight_begin",
+    label: "Astronomical twilight begin",
+    required: false,
+    aliases: ["astronomicaldawn"],
+  },
+  {
+    field: "astronomical_twilight_end",
+    label: "Astronomical twilight end",
+    required: false,
+    aliases: ["astronomicaldusk"],
+  },
+  {
+    field: "first_light",
+    label: "First light",
+    required: false,
+    aliases: [],
+  },
+  {
+    field: "last_light",
+    label: "Last light",
+    required: false,
+    aliases: [],
+  },
+  {
+    field: "golden_hour",
+    label: "Golden hour",
+    required: false,
+    aliases: [],
+  },
+];
+
+// Source column for each field; unmapped fields are left out or derived
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+export type DayLengthUnit = "seconds" | "minutes" | "hms";
+
+export const DAY_LENGTH_UNITS: { value: DayLengthUnit; label: string }[] = [
+  { value: "seconds", label: "Seconds" },
+  { value: "minutes", label: "Minutes" },
+  { value: "hms", label: "HH:MM:SS" },
+];
+
+// Where times without an offset are read: always in UTC, in the zone named
+// by each row's time zone column, or in one zone for the whole file
+export type TimeZoneMode = "utc" | "column" | "zone";
+
+export interface ImportSettings {
+  mapping: ColumnMapping;
+  dayLengthUnit: DayLengthUnit;
+  timeZoneMode: TimeZoneMode;
+  // Used when timeZoneMode is "zone"
+  timeZone: string;
+}
+
+export type ImportRow = TablesInsert<"astronomical_data">;
+
+export interface ImportRowResult {
+  // 1-based position among the file's records
+  number: number;
+  row: ImportRow | null;
+  errors: string[];
+}
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+const OPTIONAL_TIME_FIELDS: ImportField[] = [
+  "civil_twilight_begin",
+  "civil_twilight_end",
+  "nautical_twilight_begin",
+  "nautical_twilight_end",
+  "astronomical_twilight_begin",
+  "astronomical_twilight_end",
+  "first_light",
+  "last_light",
+  "golden_hour",
+];
+
+// Times after sunset, which can fall after midnight
+const EVENING_TIME_FIELDS: ImportField[] = [
+  "civil_twilight_end",
+  "nautical_twilight_end",
+  "astronomical_twilight_end",
+  "last_light",
+];
+
+const success = <T>(value: T): ParseResult<T> => ({ value, error: null });
+const failure = <T>(error: string): ParseResult<T> => ({ value: null, error });
+
+/** Splits CSV text into rows of fields, honouring quoted fields. */
+export const parseCsv = (text: string, delimiter: string) => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((fields) => fields.some((value) => value.trim()));
+};
+
+// The candidate that splits the header line into the most columns
+const detectDelimiter = (text: string) => {
+  const header = text.split(/\r?\n/, 1)[0];
+  return [",", ";", "\t"].reduce((best, candidate) =>
+    header.split(candidate).length > header.split(best).length
+      ? candidate
+      : best
+  );
+};
+
+const readCsv = (text: string): ParseResult<Omit<ImportFile, "fileName">> => {
+  const [header, ...rows] = parseCsv(text, detectDelimiter(text));
+  if (!header) return failure("The file is empty");
+
+  const columns = header.map((column) => column.trim());
+  return success({
+    columns,
+    records: rows.map((fields) =>
+      Object.fromEntries(
+        columns.map((column, i) => [column, fields[i] ?? null])
+      )
+    ),
+  });
+};
+
+const readJson = (text: string): ParseResult<Omit<ImportFile, "fileName">> => {
+  let items: unknown[];
+  try {
+    // A JSON array of objects, or JSON Lines with one object per line
+    items = text.trim().startsWith("[")
+      ? JSON.parse(text)
+      : text
+          .split(/\r?\n/)
+          .filter((line) => line.trim())
+          .map((line) => JSON.parse(line));
+  } catch (error) {
+    return failure(`The file isn't valid JSON: ${(error as Error).message}`);
+  }
+
+  if (
+    !items.every(
+      (item) => item && typeof item === "object" && !Array.isArray(item)
+    )
+  ) {
+    return failure("Every JSON record must be an object");
+  }
+
+  const columns: string[] = [];
+  const records = (items as Record<string, unknown>[]).map((item) =>
+    Object.fromEntries(
+      Object.entries(item).map(([key, value]) => {
+        if (!columns.includes(key)) columns.push(key);
+        return [
+          key,
+          value !== null && typeof value === "object"
+            ? JSON.stringify(value)
+            : (value as ImportValue),
+        ];
+      })
+    )
+  );
+  return success({ columns, records });
+};
+
+/** Reads a CSV, JSON or JSON Lines file's records, by its extension. */
+export const readImportFile = (
+  fileName: string,
+  text: string
+): ParseResult<ImportFile> => {
+  const content = text.replace(/^\uFEFF/, "");
+  const isJson = /\.(json|jsonl|ndjson)$/i.test(fileName);
+  const result = isJson ? readJson(content) : readCsv(content);
+  if (result.error) return failure(result.error);
+  if (!result.value.records.length) return failure("The file has no records");
+
+  return success({ fileName, ...result.value });
+};
+
+const normalizeColumnName = (name: string) =>
+  name.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+/** Maps each field to the column whose name matches it or an alias. */
+export const guessMapping = (columns: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  IMPORT_FIELDS.forEach(({ field, aliases }) => {
+    const names = [field, ...aliases].map(normalizeColumnName);
+    const column = columns.find(
+      (item) =>
+        names.includes(normalizeColumnName(item)) &&
+        !Object.values(mapping).includes(item)
+    );
+    if (column) mapping[field] = column;
+  });
+  return mapping;
+};
+
+/**
+ * The day length unit the values look like they're in: HH:MM:SS when they
+ * contain colons, otherwise minutes when none exceeds a day's worth of them.
+ */
+export const detectDayLengthUnit = (values: ImportValue[]): DayLengthUnit => {
+  const present = values
+    .filter((value) => value !== null && String(value).trim() !== "")
+    .map(String);
+  if (present.some((value) => value.includes(":"))) return "hms";
+
+  const numbers = present.map(Number).filter(Number.isFinite);
+  const largest = numbers.reduce((max, value) => Math.max(max, value), 0);
+  return numbers.length && largest <= 24 * 60 ? "minutes" : "seconds";
+};
+
+const parseDayLength = (
+  value: string,
+  unit: DayLengthUnit
+): ParseResult<number> => {
+  let seconds: number;
+  if (unit === "hms") {
+    const match = value.match(/^(\d{1,2}):(\d{2})(?::(\d{2}(?:\.\d+)?))?$/);
+    if (!match) return failure(`Day length "${value}" isn't HH:MM:SS`);
+    seconds =
+      Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3] ?? 0);
+  } else {
+    const number = Number(value);
+    if (value === "" || !Number.isFinite(number)) {
+      return failure(`Day length "${value}" isn't a number`);
+    }
+    seconds = unit === "minutes" ? number * 60 : number;
+  }
+
+  return seconds >= 0 && seconds <= SECONDS_PER_DAY
+    ? success(Math.round(seconds))
+    : failure(`Day length "${value}" is more than a day`);
+};
+
+const DATE_TIME_PATTERN =
+  /^(\d{4}-\d{2}-\d{2})[T ](\d{1,2}:\d{2}(?::\d{2}(?:\.\d+)?)?)\s*(Z|[+-]\d{2}:?\d{2})?$/i;
+const TIME_PATTERN = /^(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([AP]M)?$/i;
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+// "+0200" as "+02:00", which Date requires
+const normalizeOffset = (offset: string) =>
+  offset.toUpperCase() === "Z"
+    ? "Z"
+    : offset.replace(/^([+-]\d{2}):?(\d{2})$/, "$1:$2");
+
+/**
+ * Reads a full timestamp, or a time of day on `date`. Values with an offset
+ * keep it; the others are wall-clock times in `timeZone`.
+ */
+const parseTime = (
+  value: string,
+  date: string,
+  timeZone: string
+): ParseResult<Date> => {
+  const dateTime = value.match(DATE_TIME_PATTERN);
+  if (dateTime) {
+    const [, day, time, offset] = dateTime;
+    const [hours, ...rest] = time.split(":");
+    const local = `${day}T${pad(Number(hours))}:${rest.join(":")}`;
+    const instant = offset
+      ? new Date(`${local}${normalizeOffset(offset)}`)
+      : fromZonedTime(local, timeZone);
+    return instant && !Number.isNaN(instant.getTime())
+      ? success(instant)
+      : failure(`Time "${value}" isn't valid`);
+  }
+
+  const time = value.match(TIME_PATTERN);
+  if (!time) return failure(`Time "${value}" isn't a time or timestamp`);
+
+  let hours = Number(time[1]);
+  const minutes = Number(time[2]);
+  const seconds = Number(time[3] ?? 0);
+  const meridiem = time[4]?.toUpperCase();
+  if (meridiem && (hours < 1 || hours > 12)) {
+    return failure(`Time "${value}" isn't valid`);
+  }
+  if (meridiem) hours = (hours % 12) + (meridiem === "PM" ? 12 : 0);
+  if (hours > 23 || minutes > 59 || seconds > 59) {
+    return failure(`Time "${value}" isn't valid`);
+  }
+
+  return success(
+    fromZonedTime(
+      `${date}T${pad(hours)}:${pad(minutes)}:${pad(seconds)}`,
+      timeZone
+    )
+  );
+};
+
+const isTimeOfDay = (value: string) => TIME_PATTERN.test(value);
+
+const nextDay = (time: Date) =>
+  new Date(time.getTime() + SECONDS_PER_DAY * 1000);
+
+/**
+ * Turns every record into a row under the mapping and settings, or the
+ * reasons it can't be. Missing day lengths come from sunrise and sunset,
+ * and missing solar noons from their midpoint.
+ */
+export const validateRecords = (
+  file: ImportFile,
+  settings: ImportSettings,
+  source: string
+): ImportRowResult[] => {
+  const { mapping } = settings;
+  const seen = new Map<string, number>();
+
+  return file.records.map((record, index) => {
+    const errors: string[] = [];
+    const text = (field: ImportField) => {
+      const column = mapping[field];
+      const value = column ? record[column] : null;
+      return value === null || value === undefined ? "" : String(value).trim();
+    };
+    // Records the error and returns null when the value can't be read
+    const read = <T>(result: ParseResult<T>) => {
+      if (result.error) errors.push(result.error);
+      return result.value;
+    };
+
+    const location = text("location");
+    if (!location) errors.push("Location is missing");
+    const latitude = read(parseCoordinate(text("latitude"), "latitude"));
+    const longitude = read(parseCoordinate(text("longitude"), "longitude"));
+    const date = text("date") ? read(parseDate(text("date"))) : null;
+    if (!text("date")) errors.push("Date is missing");
+
+    const timezoneText = text("timezone");
+    if (timezoneText && !isValidTimeZone(timezoneText)) {
+      errors.push(`Time zone "${timezoneText}" isn't a known zone`);
+    }
+    const rowTimeZone =
+      timezoneText && isValidTimeZone(timezoneText) ? timezoneText : null;
+
+    let readingZone = "UTC";
+    if (settings.timeZoneMode === "zone") readingZone = settings.timeZone;
+    if (settings.timeZoneMode === "column") {
+      if (!rowTimeZone && !timezoneText) errors.push("Time zone is missing");
+      readingZone = rowTimeZone ?? "UTC";
+    }
+
+    // Times can only be placed once the date is known
+    const time = (field: ImportField, label: string, required: boolean) => {
+      const value = text(field);
+      if (!value) {
+        if (required) errors.push(`${label} is missing`);
+        return null;
+      }
+      return date ? read(parseTime(value, date, readingZone)) : null;
+    };
+
+    const sunrise = time("sunrise", "Sunrise", true);
+    let sunset = time("sunset", "Sunset", true);
+    // A sunset given as a time of day can fall after midnight
+    if (sunrise && sunset && sunset <= sunrise && isTimeOfDay(text("sunset"))) {
+      sunset = nextDay(sunset);
+    }
+    if (sunrise && sunset && sunset <= sunrise) {
+      errors.push("Sunset is before sunrise");
+    }
+
+    const dayLength = text("day_length")
+      ? read(parseDayLength(text("day_length"), settings.dayLengthUnit))
+      : sunrise && sunset
+      ? Math.round((sunset.getTime() - sunrise.getTime()) / 1000)
+      : null;
+
+    const solarNoon =
+      time("solar_noon", "Solar noon", false) ??
+      (sunrise && sunset
+        ? new Date((sunrise.getTime() + sunset.getTime()) / 2)
+        : null);
+
+    // Evening times given as a time of day before solar noon are after
+    // midnight, like a late sunset
+    const optionalTimes = Object.fromEntries(
+      OPTIONAL_TIME_FIELDS.map((field) => {
+        const label = IMPORT_FIELDS.find((item) => item.field === field).label;
+        let value = time(field, label, false);
+        if (
+          value &&
+          solarNoon &&
+          value <= solarNoon &&
+          EVENING_TIME_FIELDS.includes(field) &&
+          isTimeOfDay(text(field))
+        ) {
+          value = nextDay(value);
+        }
+        return [field, value?.toISOString() ?? null];
+      })
+    );
+
+    if (location && date) {
+      const key = `${location.replace(/\s+/g, " ").toLowerCase()}|${date}`;
+      if (seen.has(key)) {
+        errors.push(`Same location and date as record ${seen.get(key)}`);
+      } else {
+        seen.set(key, index + 1);
+      }
+    }
+
+    if (errors.length) return { number: index + 1, row: null, errors };
+
+    // The zone is stored for displaying the row in location time; without
+    // a known one it stays null and the display guesses from the longitude
+    const timezone =
+      rowTimeZone ??
+      (settings.timeZoneMode === "zone" ? settings.timeZone : null);
+    const localZone = displayTimeZone("location", { timezone, longitude });
+
+    return {
+      number: index + 1,
+      errors,
+      row: {
+        location,
+        country: text("country") || null,
+        latitude,
+        longitude,
+        date,
+        sunrise: sunrise.toISOString(),
+        sunset: sunset.toISOString(),
+        sunrise_local_seconds: secondsSinceMidnight(sunrise, localZone),
+        sunset_local_seconds: secondsSinceMidnight(sunset, localZone),
+        solar_noon: solarNoon.toISOString(),
+        day_length: dayLength,
+        ...optionalTimes,
+        source,
+        timezone,
+      },
+    };
+  });
+};
+
+/** Source tag of rows imported from `fileName`. */
+export const importSource = (fileName: string) => `import:${fileName}`;
+
+/** Values of the column mapped to `field`, for detecting units. */
+export const mappedValues = (
+  file: ImportFile,
+  mapping: ColumnMapping,
+  field: ImportField
+) => {
+  const column = mapping[field];
+  return column ? file.records.map((record) => record[column] ?? null) : [];
+};
@@ -0,0 +1,121 @@
+// Parses the location list of the collector: one location per line, or CSV
+// with a header row naming the location column and optional lat/lng columns.
+
+export interface LocationEntry {
+  name: string;
+  // Set when the input provided coordinates, so geocoding can be skipped
+  latitude?: number;
+  longitude?: number;
+}
+
+const NAME_HEADERS = ["name", "location", "city", "place"];
+const LATITUDE_HEADERS = ["lat", "latitude"];
+const LONGITUDE_HEADERS = ["lng", "lon", "long", "longitude"];
+
+/** Splits one CSV line, honouring double-quoted fields. */
+export const splitCsvLine = (line: string, delimiter = ","): string[] => {
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      fields.push(field.trim());
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field.trim());
+
+  return fields;
+};
+
+const parseCoordinate = (value: string | undefined, limit: number) => {
+  if (value === undefined || value.trim() === "") return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) && Math.abs(number) <= limit
+    ? number
+    : undefined;
+};
+
+const withCoordinates = (
+  name: string,
+  latitude: string | undefined,
+  longitude: string | undefined
+): LocationEntry => {
+  const lat = parseCoordinate(latitude, 90);
+  const lng = parseCoordinate(longitude, 180);
+  return lat !== undefined && lng !== undefined
+    ? { name, latitude: lat, longitude: lng }
+    : { name };
+};
+
+const findColumn = (header: string[], names: string[]) =>
+  header.findIndex((column) => names.includes(column.toLowerCase()));
+
+/**
+ * Returns one entry per distinct location name, in input order. Without a
+ * recognised header, a line ending in two numbers ("Paris, 48.86, 2.35")
+ * is read as name, latitude and longitude; any other line is a name, which
+ * may itself contain commas ("Portland, OR").
+ */
+export const parseLocationList = (text: string): LocationEntry[] => {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith("#"));
+
+  if (lines.length === 0) return [];
+
+  const header = splitCsvLine(lines[0]);
+  const nameColumn = findColumn(header, NAME_HEADERS);
+  let entries: LocationEntry[];
+
+  if (nameColumn >= 0) {
+    const latColumn = findColumn(header, LATITUDE_HEADERS);
+    const lngColumn = findColumn(header, LONGITUDE_HEADERS);
+
+    entries = lines.slice(1).map((line) => {
+      const fields = splitCsvLine(line);
+      return withCoordinates(
+        fields[nameColumn] ?? "",
+        fields[latColumn],
+        fields[lngColumn]
+      );
+    });
+  } else {
+    entries = lines.map((line) => {
+      const fields = splitCsvLine(line);
+      if (fields.length >= 3) {
+        const entry = withCoordinates(
+          fields.slice(0, -2).join(", "),
+          fields[fields.length - 2],
+          fields[fields.length - 1]
+        );
+        if (entry.latitude !== undefined) return entry;
+      }
+      return { name: line.replace(/"/g, "").trim() };
+    });
+  }
+
+  const seen = new Set<string>();
+  return entries.filter((entry) => {
+    const key = entry.name.toLowerCase().replace(/\s+/g, " ");
+    if (!entry.name || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
@@ -0,0 +1,111 @@
+// Satellite pass prediction from two-line element sets (TLE), propagated
+// with SGP4 (satellite.js).
+
+import {
+  degreesToRadians,
+  ecfToLookAngles,
+  eciToEcf,
+  gstime,
+  propagate,
+  radiansToDegrees,
+  SatRec,
+  twoline2satrec,
+} from "satellite.js";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+// Julian date of the Unix epoch
+const UNIX_EPOCH_JD = 2440587.5;
+
+export interface OrbitalElements {
+  epoch: Date;
+  satrec: SatRec;
+}
+
+export interface SatellitePass {
+  rise: Date;
+  set: Date;
+  maxElevation: number; // degrees
+}
+
+/** Throws when the lines aren't a TLE SGP4 can use. */
+export const parseTle = (line1: string, line2: string): OrbitalElements => {
+  const satrec = twoline2satrec(line1, line2);
+  // Unreadable fields come out as NaN rather than as an error
+  if (
+    satrec.error ||
+    !Number.isFinite(satrec.no) ||
+    !Number.isFinite(satrec.jdsatepoch)
+  ) {
+    throw new Error("The element lines are not a valid TLE");
+  }
+
+  return {
+    epoch: new Date((satrec.jdsatepoch - UNIX_EPOCH_JD) * MS_PER_DAY),
+    satrec,
+  };
+};
+
+/**
+ * Elevation of the satellite above the observer's horizon, in degrees, or
+ * null when SGP4 can't place it at `time` (e.g. it has decayed).
+ */
+export const getElevation = (
+  elements: OrbitalElements,
+  latitude: number,
+  longitude: number,
+  time: number
+) => {
+  const date = new Date(time);
+  const state = propagate(elements.satrec, date);
+  if (!state) return null;
+
+  const { elevation } = ecfToLookAngles(
+    {
+      latitude: degreesToRadians(latitude),
+      longitude: degreesToRadians(longitude),
+      height: 0,
+    },
+    eciToEcf(state.position, gstime(date))
+  );
+  return radiansToDegrees(elevation);
+};
+
+/**
+ * Passes above `minElevation` degrees between `from` and `to`, sampled every
+ * 30 seconds. A pass still in progress at `to` ends there.
+ */
+export const predictPasses = (
+  elements: OrbitalElements,
+  latitude: number,
+  longitude: number,
+  from: Date,
+  to: Date,
+  minElevation = 10
+): SatellitePass[] => {
+  const step = 30 * 1000;
+  const passes: SatellitePass[] = [];
+  let current: SatellitePass | null = null;
+
+  for (let time = from.getTime(); time <= to.getTime(); time += step) {
+    const elevation = getElevation(elements, latitude, longitude, time);
+
+    if (elevation !== null && elevation >= minElevation) {
+      if (!current) {
+        current = {
+          rise: new Date(time),
+          set: new Date(time),
+          maxElevation: elevation,
+        };
+      }
+      current.set = new Date(time);
+      current.maxElevation = Math.max(current.maxElevation, elevation);
+    } else if (current) {
+      passes.push(current);
+      current = null;
+    }
+  }
+
+  if (current) passes.push(current);
+
+  return passes;
+};
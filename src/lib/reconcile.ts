@@ -0,0 +1,158 @@
+// Merges the rows different providers reported for the same location and
+// date into a single consensus record.
+
+import { rowKey } from "./sourceAgreement";
+
+export type ReconcileStrategy = "median" | "prefer-source" | "exclude-outliers";
+
+export const RECONCILE_STRATEGIES: {
+  value: ReconcileStrategy;
+  label: string;
+}[] = [
+  { value: "median", label: "Median" },
+  { value: "prefer-source", label: "Prefer source" },
+  { value: "exclude-outliers", label: "Exclude outliers" },
+];
+
+export interface ReconcileOptions {
+  strategy: ReconcileStrategy;
+  // Used by "prefer-source"; dates it didn't report fall back to the median
+  preferredSource?: string;
+  // Used by "exclude-outliers": rows further than this from the median in
+  // any field are dropped before averaging
+  outlierThresholdSeconds?: number;
+}
+
+export interface ReconcilableRow {
+  id: string;
+  location: string;
+  date: string;
+  source: string;
+  // Null in polar day or night
+  sunrise: string | null;
+  sunset: string | null;
+  solar_noon: string | null;
+  day_length: number;
+}
+
+const DEFAULT_OUTLIER_THRESHOLD = 120;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const mean = (values: number[]) =>
+  values.reduce((sum, value) => sum + value, 0) / values.length;
+
+// Missing times are NaN and left out of every aggregate
+const timeOf = (value: string | null) => (value ? Date.parse(value) : NaN);
+
+const timesOf = (row: ReconcilableRow) => ({
+  sunrise: timeOf(row.sunrise),
+  sunset: timeOf(row.sunset),
+  solar_noon: timeOf(row.solar_noon),
+  day_length: row.day_length * 1000,
+});
+
+type Times = ReturnType<typeof timesOf>;
+
+const combine = (rows: ReconcilableRow[], aggregate: typeof median): Times => {
+  const times = rows.map(timesOf);
+  const field = (values: number[]) => {
+    const known = values.filter(Number.isFinite);
+    return known.length ? aggregate(known) : NaN;
+  };
+  return {
+    sunrise: field(times.map((t) => t.sunrise)),
+    sunset: field(times.map((t) => t.sunset)),
+    solar_noon: field(times.map((t) => t.solar_noon)),
+    day_length: field(times.map((t) => t.day_length)),
+  };
+};
+
+// Largest deviation (ms) of a row from the consensus across the fields
+// both have
+const deviation = (row: ReconcilableRow, consensus: Times) => {
+  const times = timesOf(row);
+  return (Object.keys(consensus) as (keyof Times)[]).reduce(
+    (largest, field) => {
+      const difference = Math.abs(times[field] - consensus[field]);
+      return Number.isFinite(difference)
+        ? Math.max(largest, difference)
+        : largest;
+    },
+    0
+  );
+};
+
+const toIso = (time: number) =>
+  Number.isFinite(time) ? new Date(time).toISOString() : null;
+
+const reconcileGroup = <T extends ReconcilableRow>(
+  rows: T[],
+  options: ReconcileOptions
+): T => {
+  const medianTimes = combine(rows, median);
+
+  if (options.strategy === "prefer-source") {
+    const preferred = rows.find(
+      (row) => row.source === options.preferredSource
+    );
+    if (preferred) return preferred;
+  }
+
+  let times = medianTimes;
+  let contributing = rows;
+  let source = `consensus:${options.strategy}`;
+
+  if (options.strategy === "exclude-outliers") {
+    const threshold =
+      (options.outlierThresholdSeconds ?? DEFAULT_OUTLIER_THRESHOLD) * 1000;
+    const inliers = rows.filter(
+      (row) => deviation(row, medianTimes) <= threshold
+    );
+    if (inliers.length > 0) {
+      contributing = inliers;
+      times = combine(inliers, mean);
+    }
+  } else if (options.strategy === "prefer-source") {
+    source = "consensus:median";
+  }
+
+  // Fields the consensus doesn't cover (twilight, ISS, ...) come from the
+  // row closest to it
+  const representative = contributing.reduce((closest, row) =>
+    deviation(row, times) < deviation(closest, times) ? row : closest
+  );
+
+  return {
+    ...representative,
+    id: `${rowKey(representative)}|${source}`,
+    source,
+    sunrise: toIso(times.sunrise),
+    sunset: toIso(times.sunset),
+    solar_noon: toIso(times.solar_noon),
+    day_length: Math.round(times.day_length / 1000),
+  };
+};
+
+/** Returns one record per location and date. */
+export const reconcileRows = <T extends ReconcilableRow>(
+  rows: T[],
+  options: ReconcileOptions
+): T[] => {
+  const groups = rows.reduce((result, row) => {
+    const key = rowKey(row);
+    if (!result[key]) {
+      result[key] = [];
+    }
+    result[key].push(row);
+    return result;
+  }, {} as Record<string, T[]>);
+
+  return Object.values(groups).map((group) => reconcileGroup(group, options));
+};
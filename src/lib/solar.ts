@@ -0,0 +1,204 @@
+// Solar position and sunrise/sunset calculations following the NOAA Solar
+// Calculator (https://gml.noaa.gov/grad/solcalc/calcdetails.html).
+// All times are computed in UTC; accuracy is within about a minute for
+// latitudes between +/-72 degrees.
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Apparent altitude of the sun's upper limb at sunrise/sunset, accounting
+// for atmospheric refraction and the solar disc radius.
+export const SUNRISE_ALTITUDE = -0.833;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+const julianCentury = (time: number) => {
+  const julianDay = time / MS_PER_DAY + 2440587.5;
+  return (julianDay - 2451545) / 36525;
+};
+
+const sunParameters = (t: number) => {
+  const meanLongitude = (280.46646 + t * (36000.76983 + t * 0.0003032)) % 360;
+  const meanAnomaly = 357.52911 + t * (35999.05029 - 0.0001537 * t);
+  const eccentricity = 0.016708634 - t * (0.000042037 + 0.0000001267 * t);
+
+  const m = toRadians(meanAnomaly);
+  const equationOfCenter =
+    Math.sin(m) * (1.914602 - t * (0.004817 + 0.000014 * t)) +
+    Math.sin(2 * m) * (0.019993 - 0.000101 * t) +
+    Math.sin(3 * m) * 0.000289;
+
+  const omega = toRadians(125.04 - 1934.136 * t);
+  const apparentLongitude =
+    meanLongitude + equationOfCenter - 0.00569 - 0.00478 * Math.sin(omega);
+
+  const meanObliquity =
+    23 +
+    (26 + (21.448 - t * (46.815 + t * (0.00059 - t * 0.001813))) / 60) / 60;
+  const obliquity = meanObliquity + 0.00256 * Math.cos(omega);
+
+  const declination = Math.asin(
+    Math.sin(toRadians(obliquity)) * Math.sin(toRadians(apparentLongitude))
+  );
+
+  const y = Math.tan(toRadians(obliquity) / 2) ** 2;
+  const l0 = toRadians(meanLongitude);
+  const equationOfTime =
+    4 *
+    toDegrees(
+      y * Math.sin(2 * l0) -
+        2 * eccentricity * Math.sin(m) +
+        4 * eccentricity * y * Math.sin(m) * Math.cos(2 * l0) -
+        0.5 * y * y * Math.sin(4 * l0) -
+        1.25 * eccentricity * eccentricity * Math.sin(2 * m)
+    );
+
+  return { declination, equationOfTime };
+};
+
+/**
+ * Hour angle (degrees) at which the sun crosses the given altitude, or
+ * `"up"`/`"down"` when it stays entirely above or below it all day.
+ */
+const hourAngle = (
+  latitude: number,
+  declination: number,
+  altitude: number
+): number | "up" | "down" => {
+  const phi = toRadians(latitude);
+  const cosH =
+    (Math.sin(toRadians(altitude)) - Math.sin(phi) * Math.sin(declination)) /
+    (Math.cos(phi) * Math.cos(declination));
+
+  if (cosH < -1) return "up";
+  if (cosH > 1) return "down";
+  return toDegrees(Math.acos(cosH));
+};
+
+const startOfUtcDay = (date: string) => Date.parse(`${date}T00:00:00Z`);
+
+const solarNoonTime = (dayStart: number, longitude: number) => {
+  // Two passes: the second uses the equation of time at the estimated noon.
+  let minutes = 720 - 4 * longitude;
+  for (let i = 0; i < 2; i++) {
+    const { equationOfTime } = sunParameters(
+      julianCentury(dayStart + minutes * 60000)
+    );
+    minutes = 720 - 4 * longitude - equationOfTime;
+  }
+  return dayStart + minutes * 60000;
+};
+
+/**
+ * Time at which the sun crosses `altitude` on the given UTC date, either in
+ * the morning (`rising`) or the evening. Returns `null` when the sun never
+ * reaches that altitude, or never drops below it, on that day.
+ */
+export const getSolarEventTime = (
+  latitude: number,
+  longitude: number,
+  date: string,
+  altitude: number,
+  rising: boolean
+): Date | null => {
+  const dayStart = startOfUtcDay(date);
+  let time = solarNoonTime(dayStart, longitude);
+
+  // Refine the estimate using the sun's position at the event itself.
+  for (let i = 0; i < 3; i++) {
+    const { declination, equationOfTime } = sunParameters(julianCentury(time));
+    const angle = hourAngle(latitude, declination, altitude);
+    if (typeof angle !== "number") return null;
+
+    const offset = rising ? -4 * angle : 4 * angle;
+    time = dayStart + (720 - 4 * longitude - equationOfTime + offset) * 60000;
+  }
+
+  return new Date(time);
+};
+
+export interface SolarTimes {
+  sunrise: Date | null;
+  sunset: Date | null;
+  solarNoon: Date;
+  /** Seconds between sunrise and sunset; 0 for polar night, 86400 for midnight sun. */
+  dayLength: number;
+}
+
+export const calculateSolarTimes = (
+  latitude: number,
+  longitude: number,
+  date: string
+): SolarTimes => {
+  const solarNoon = solarNoonTime(startOfUtcDay(date), longitude);
+  const sunrise = getSolarEventTime(
+    latitude,
+    longitude,
+    date,
+    SUNRISE_ALTITUDE,
+    true
+  );
+  const sunset = getSolarEventTime(
+    latitude,
+    longitude,
+    date,
+    SUNRISE_ALTITUDE,
+    false
+  );
+
+  let dayLength: number;
+  if (sunrise && sunset) {
+    dayLength = Math.round((sunset.getTime() - sunrise.getTime()) / 1000);
+  } else {
+    const { declination } = sunParameters(julianCentury(solarNoon));
+    dayLength =
+      hourAngle(latitude, declination, SUNRISE_ALTITUDE) === "up" ? 86400 : 0;
+  }
+
+  return {
+    sunrise,
+    sunset,
+    solarNoon: new Date(solarNoon),
+    dayLength,
+  };
+};
+
+/** Apparent minus mean solar time at `time`, in minutes. */
+export const getEquationOfTime = (time: Date) =>
+  sunParameters(julianCentury(time.getTime())).equationOfTime;
+
+/** The point on Earth where the sun is directly overhead at `time`. */
+export const getSubsolarPoint = (time: Date) => {
+  const { declination, equationOfTime } = sunParameters(
+    julianCentury(time.getTime())
+  );
+  const minutesOfDay = (time.getTime() % MS_PER_DAY) / 60000;
+  const longitude = (720 - minutesOfDay - equationOfTime) / 4;
+
+  return {
+    latitude: toDegrees(declination),
+    longitude: ((((longitude + 180) % 360) + 360) % 360) - 180,
+  };
+};
+
+/**
+ * Altitude of the sun's centre (degrees, without refraction) at `time` for
+ * any point. Returns a function so the sun's position is only computed once
+ * when many points are evaluated for the same instant.
+ */
+export const solarAltitudeAt = (time: Date) => {
+  const subsolar = getSubsolarPoint(time);
+  const sinDeclination = Math.sin(toRadians(subsolar.latitude));
+  const cosDeclination = Math.cos(toRadians(subsolar.latitude));
+
+  return (latitude: number, longitude: number) => {
+    const phi = toRadians(latitude);
+    const hourAngle = toRadians(longitude - subsolar.longitude);
+    return toDegrees(
+      Math.asin(
+        Math.sin(phi) * sinDeclination +
+          Math.cos(phi) * cosDeclination * Math.cos(hourAngle)
+      )
+    );
+  };
+};
@@ -0,0 +1,170 @@
+// Compares rows from different providers for the same location and date.
+
+export interface SourceComparisonRow {
+  location: string;
+  date: string;
+  source: string;
+  // Null in polar day or night
+  sunrise: string | null;
+  sunset: string | null;
+  solar_noon: string | null;
+  day_length: number;
+}
+
+export type ComparedField = "sunrise" | "sunset" | "solar_noon" | "day_length";
+
+export const COMPARED_FIELDS: { field: ComparedField; label: string }[] = [
+  { field: "sunrise", label: "Sunrise" },
+  { field: "sunset", label: "Sunset" },
+  { field: "solar_noon", label: "Solar Noon" },
+  { field: "day_length", label: "Day Length" },
+];
+
+export interface SourceDiscrepancy {
+  location: string;
+  date: string;
+  sourceA: string;
+  sourceB: string;
+  // Signed difference (A - B) in seconds for each field, null when either
+  // source has no time for it
+  differences: Record<ComparedField, number | null>;
+  // Largest absolute difference across the compared fields, in seconds
+  maxDifference: number;
+}
+
+export interface SourcePairSummary {
+  pair: string;
+  samples: number;
+  // Mean absolute difference in seconds for each field, null when no pair
+  // had both times
+  meanDifferences: Record<ComparedField, number | null>;
+  flagged: number;
+}
+
+export const rowKey = (row: { location: string; date: string }) =>
+  `${row.location.trim().toLowerCase()}|${row.date}`;
+
+const fieldSeconds = (row: SourceComparisonRow, field: ComparedField) => {
+  if (field === "day_length") return row.day_length;
+  return row[field] ? Date.parse(row[field]) / 1000 : null;
+};
+
+/**
+ * Pairs every two providers that reported the same location and date and
+ * computes their differences. Sources are ordered alphabetically within a
+ * pair so the sign of the differences is stable.
+ */
+export const compareSources = (
+  rows: SourceComparisonRow[]
+): SourceDiscrepancy[] => {
+  const groups = rows.reduce((result, row) => {
+    const key = rowKey(row);
+    if (!result[key]) {
+      result[key] = [];
+    }
+    result[key].push(row);
+    return result;
+  }, {} as Record<string, SourceComparisonRow[]>);
+
+  const discrepancies: SourceDiscrepancy[] = [];
+
+  Object.values(groups).forEach((group) => {
+    // Keep one row per source if a date was collected more than once
+    const bySource = new Map(group.map((row) => [row.source, row]));
+    const sorted = Array.from(bySource.values()).sort((a, b) =>
+      a.source.localeCompare(b.source)
+    );
+
+    for (let i = 0; i < sorted.length; i++) {
+      for (let j = i + 1; j < sorted.length; j++) {
+        const a = sorted[i];
+        const b = sorted[j];
+        const differences = COMPARED_FIELDS.reduce((result, { field }) => {
+          const secondsA = fieldSeconds(a, field);
+          const secondsB = fieldSeconds(b, field);
+          result[field] =
+            secondsA === null || secondsB === null
+              ? null
+              : Math.round(secondsA - secondsB);
+          return result;
+        }, {} as Record<ComparedField, number | null>);
+
+        discrepancies.push({
+          location: a.location,
+          date: a.date,
+          sourceA: a.source,
+          sourceB: b.source,
+          differences,
+          maxDifference: Object.values(differences).reduce(
+            (largest, value) =>
+              value === null ? largest : Math.max(largest, Math.abs(value)),
+            0
+          ),
+        });
+      }
+    }
+  });
+
+  return discrepancies;
+};
+
+export const summarizeSourcePairs = (
+  discrepancies: SourceDiscrepancy[],
+  thresholdSeconds: number
+): SourcePairSummary[] => {
+  const pairs = discrepancies.reduce((result, item) => {
+    const pair = `${item.sourceA} vs ${item.sourceB}`;
+    if (!result[pair]) {
+      result[pair] = [];
+    }
+    result[pair].push(item);
+    return result;
+  }, {} as Record<string, SourceDiscrepancy[]>);
+
+  return Object.entries(pairs).map(([pair, items]) => ({
+    pair,
+    samples: items.length,
+    meanDifferences: COMPARED_FIELDS.reduce((result, { field }) => {
+      const known = items
+        .map((item) => item.differences[field])
+        .filter((value) => value !== null);
+      result[field] = known.length
+        ? known.reduce((sum, value) => sum + Math.abs(value), 0) / known.length
+        : null;
+      return result;
+    }, {} as Record<ComparedField, number | null>),
+    flagged: items.filter((item) => item.maxDifference > thresholdSeconds)
+      .length,
+  }));
+};
+
+/**
+ * Buckets absolute values into bins of `binSize`, starting at zero. Values
+ * beyond `maxBins` bins are counted in the last one, which has no upper bound.
+ */
+export const buildHistogram = (
+  values: number[],
+  binSize: number,
+  maxBins = 20
+) => {
+  if (values.length === 0) return [];
+
+  // Spreading a large array into Math.max overflows the call stack
+  const maxValue = values.reduce(
+    (max, value) => Math.max(max, Math.abs(value)),
+    0
+  );
+  const binCount = Math.min(Math.floor(maxValue / binSize) + 1, maxBins);
+  const bins = Array.from({ length: binCount }, (_, i) => ({
+    from: i * binSize,
+    to: i === binCount - 1 && binCount === maxBins ? null : (i + 1) * binSize,
+    count: 0,
+  }));
+
+  values.forEach((value) => {
+    const index = Math.min(Math.floor(Math.abs(value) / binSize), binCount - 1);
+    bins[index].count++;
+  });
+
+  return bins;
+};
@@ -0,0 +1,185 @@
+// Timezone resolution and location-aware time formatting.
+
+export type TimeDisplayMode = "location" | "utc" | "viewer";
+
+export const TIME_DISPLAY_MODES: { value: TimeDisplayMode; label: string }[] = [
+  { value: "location", label: "Location time" },
+  { value: "utc", label: "UTC" },
+  { value: "viewer", label: "My time" },
+];
+
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat(undefined, { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Nautical timezone for a longitude, e.g. "Etc/GMT-9" for 135°E. Ignores
+ * political boundaries and DST, so it's only a fallback when no provider
+ * reports the real zone. Note the inverted sign of the Etc/GMT zones.
+ */
+export const nauticalTimeZone = (longitude: number) => {
+  const offset = Math.round(longitude / 15);
+  if (offset === 0) return "Etc/GMT";
+  return `Etc/GMT${offset > 0 ? "-" : "+"}${Math.abs(offset)}`;
+};
+
+/**
+ * First valid timezone reported by a provider, or null. The nautical zone is
+ * a guess, so it's only used when displaying and never stored.
+ */
+export const resolveTimeZone = (results: { timezone?: string | null }[]) => {
+  const reported = results.find(
+    (result) => result.timezone && isValidTimeZone(result.timezone)
+  );
+  return reported?.timezone ?? null;
+};
+
+/** Timezone to render in, or undefined for the viewer's own. */
+export const displayTimeZone = (
+  mode: TimeDisplayMode,
+  row: { timezone?: string | null; longitude: number }
+) => {
+  if (mode === "utc") return "UTC";
+  if (mode === "viewer") return undefined;
+  return row.timezone && isValidTimeZone(row.timezone)
+    ? row.timezone
+    : nauticalTimeZone(row.longitude);
+};
+
+// Intl.DateTimeFormat is expensive to construct, and tables format
+// thousands of values with a handful of distinct options
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (
+  options: Intl.DateTimeFormatOptions,
+  locale: string | undefined = undefined
+) => {
+  const key = JSON.stringify([locale, options]);
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat(locale, options);
+    formatters.set(key, formatter);
+  }
+  return formatter;
+};
+
+export const formatTime = (
+  value: string | Date | null | undefined,
+  timeZone: string | undefined
+) =>
+  value
+    ? getFormatter({
+        hour: "numeric",
+        minute: "2-digit",
+        second: "2-digit",
+        timeZone,
+      }).format(new Date(value))
+    : "—";
+
+export const formatDateTime = (
+  value: string | Date | null | undefined,
+  timeZone: string | undefined
+) =>
+  value
+    ? getFormatter({
+        dateStyle: "medium",
+        timeStyle: "short",
+        timeZone,
+      }).format(new Date(value))
+    : "—";
+
+/** Short zone name such as "GMT+9" or "CEST" at the given instant. */
+export const timeZoneLabel = (
+  value: string | Date,
+  timeZone: string | undefined
+) =>
+  getFormatter({ timeZoneName: "short", timeZone })
+    .formatToParts(new Date(value))
+    .find((part) => part.type === "timeZoneName")?.value ?? "";
+
+/** Seconds elapsed since midnight in `timeZone` at the given instant. */
+export const secondsSinceMidnight = (
+  value: string | Date,
+  timeZone: string | undefined
+) => {
+  const parts = getFormatter(
+    {
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+      hourCycle: "h23",
+      timeZone,
+    },
+    "en-US"
+  ).formatToParts(new Date(value));
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((item) => item.type === type)?.value ?? 0);
+
+  return part("hour") * 3600 + part("minute") * 60 + part("second");
+};
+
+/** Offset of `timeZone` from UTC, in minutes, at the given instant. */
+export const utcOffsetMinutes = (
+  value: string | Date,
+  timeZone: string | undefined
+) => {
+  const date = new Date(value);
+  const parts = getFormatter(
+    {
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      hourCycle: "h23",
+      timeZone,
+    },
+    "en-US"
+  ).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((item) => item.type === type)?.value ?? 0);
+
+  const local = Date.UTC(
+    part("year"),
+    part("month") - 1,
+    part("day"),
+    part("hour"),
+    part("minute")
+  );
+  // The parts drop seconds, so compare against the start of the minute
+  return (local - Math.floor(date.getTime() / 60000) * 60000) / 60000;
+};
+
+/** ISO 8601 timestamp with `timeZone`'s offset, e.g. "2026-06-21T05:47:12+02:00". */
+export const formatIsoInTimeZone = (
+  value: string | Date,
+  timeZone: string | undefined
+) => {
+  const date = new Date(value);
+  const offset = utcOffsetMinutes(date, timeZone);
+  const local = new Date(date.getTime() + offset * 60000)
+    .toISOString()
+    .slice(0, 19);
+  const hours = String(Math.floor(Math.abs(offset) / 60)).padStart(2, "0");
+  const minutes = String(Math.abs(offset) % 60).padStart(2, "0");
+  return `${local}${offset < 0 ? "-" : "+"}${hours}:${minutes}`;
+};
+
+/**
+ * The instant a wall-clock time in `timeZone` refers to, from a
+ * "yyyy-MM-ddTHH:mm[:ss]" string without offset. Times skipped or repeated
+ * by a DST change resolve to one of the two offsets around it.
+ */
+export const fromZonedTime = (local: string, timeZone: string) => {
+  const asUtc = Date.parse(`${local}Z`);
+  if (Number.isNaN(asUtc)) return null;
+  // The offset at the guess can be wrong within hours of a DST change, so
+  // it's checked again at the corrected instant
+  const guess = asUtc - utcOffsetMinutes(new Date(asUtc), timeZone) * 60000;
+  return new Date(asUtc - utcOffsetMinutes(new Date(guess), timeZone) * 60000);
+};
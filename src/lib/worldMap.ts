@@ -0,0 +1,96 @@
+// Equirectangular world map in degree units: x runs from 0 at 180° W to
+// 360 at 180° E, y from 0 at the north pole to 180 at the south pole. The
+// land outline comes from Natural Earth via the world-atlas package.
+
+import type { MultiPolygon, Polygon, Position } from "geojson";
+import type { GeometryCollection, Topology } from "topojson-specification";
+import { Coordinates } from "./coordinates";
+
+export const MAP_WIDTH = 360;
+export const MAP_HEIGHT = 180;
+
+export const project = (latitude: number, longitude: number) => ({
+  x: longitude + 180,
+  y: 90 - latitude,
+});
+
+export const unproject = (x: number, y: number): Coordinates => ({
+  latitude: Math.max(-90, Math.min(90, 90 - y)),
+  longitude: ((((x + 180) % 360) + 360) % 360) - 180,
+});
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Rings that cross the antimeridian are made continuous, so they may reach
+// past ±180° and are drawn again one map width over. A ring that ends a
+// full turn from where it started goes round a pole (Antarctica) and is
+// closed along the map edge.
+const ringPath = (ring: Position[]) => {
+  const points: Position[] = [];
+  ring.forEach(([longitude, latitude]) => {
+    let x = longitude;
+    if (points.length > 0) {
+      const previous = points[points.length - 1][0];
+      while (x - previous > 180) x -= 360;
+      while (previous - x > 180) x += 360;
+    }
+    points.push([x, latitude]);
+  });
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  if (Math.abs(last[0] - first[0]) > 180) {
+    const poleLatitude = first[1] < 0 ? -90 : 90;
+    points.push([last[0], poleLatitude], [first[0], poleLatitude]);
+  }
+
+  const xs = points.map(([x]) => x);
+  const offsets = [0];
+  if (Math.min(...xs) < -180) offsets.push(360);
+  if (Math.max(...xs) > 180) offsets.push(-360);
+
+  return offsets
+    .map(
+      (offset) =>
+        points
+          .map(([longitude, latitude], i) => {
+            const { x, y } = project(latitude, longitude + offset);
+            return `${i === 0 ? "M" : "L"}${round(x)},${round(y)}`;
+          })
+          .join("") + "Z"
+    )
+    .join("");
+};
+
+/** SVG path data for a land polygon, in map units. */
+export const geometryPath = (geometry: Polygon | MultiPolygon) => {
+  const polygons =
+    geometry.type === "Polygon" ? [geometry.coordinates] : geometry.coordinates;
+  return polygons.flat().map(ringPath).join("");
+};
+
+let loading: Promise<string> | null = null;
+
+/** Path of the world's land, loaded with the outline data on first use. */
+export const loadLandPath = () => {
+  if (!loading) {
+    loading = Promise.all([
+      import("world-atlas/land-110m.json"),
+      import("topojson-client"),
+    ]).then(([atlas, { feature }]) => {
+      const topology = atlas.default as unknown as Topology<{
+        land: GeometryCollection;
+      }>;
+      return feature(topology, topology.objects.land)
+        .features.map((item) =>
+          geometryPath(item.geometry as Polygon | MultiPolygon)
+        )
+        .join("");
+    });
+    // Let a failed load be retried
+    loading.catch(() => {
+      loading = null;
+    });
+  }
+  return loading;
+};
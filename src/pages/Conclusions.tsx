@@ -1,5 +1,5 @@
 import { useState, useEffect, useMemo } from "react";
-import { supabase } from "@/integrations/supabase/client";
+import { fetchAllAstronomicalData } from "@/services/queryAstronomicalData";
 import {
   Card,
   CardContent,
@@ -11,6 +11,7 @@ import {
 import { Button } from "@/components/ui/button";
 import { useNavigate } from "react-router-dom";
 import Header from "@/components/Header";
+import SourceAgreement from "@/components/SourceAgreement";
 import {
   MapPin,
   TrendingUp,
@@ -25,10 +26,10 @@ interface AstronomicalDataItem {
   latitude: number;
   longitude: number;
   date: string;
-  sunrise: string;
-  sunset: string;
+  sunrise: string | null;
+  sunset: string | null;
   day_length: number;
-  solar_noon: string;
+  solar_noon: string | null;
   source: string;
   created_at: string;
 }
@@ -72,9 +73,8 @@ const Conclusions = () => {
   const fetchData = async () => {
     setIsLoading(true);
     try {
-      const { data, error } = await supabase
-        .from("astronomical_data")
-        .select("*");
+      // A single request stops at the API's row limit, so fetch in batches
+      const { data, error } = await fetchAllAstronomicalData({});
 
       if (error) throw error;
 
@@ -314,6 +314,8 @@ const Conclusions = () => {
                 )}
               </div>
 
+              <SourceAgreement data={astronomicalData} />
+
               {locationTrends.length > 0 && (
                 <Card className="mb-8 bg-green-50 border-green-200">
                   <CardHeader>
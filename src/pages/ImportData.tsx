@@ -0,0 +1,565 @@
+import { ChangeEvent, useMemo, useState } from "react";
+import { AlertCircle, CheckCircle2, Upload } from "lucide-react";
+import Header from "@/components/Header";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { toast } from "@/components/ui/use-toast";
+import {
+  ColumnMapping,
+  DAY_LENGTH_UNITS,
+  DayLengthUnit,
+  detectDayLengthUnit,
+  guessMapping,
+  IMPORT_FIELDS,
+  ImportField,
+  ImportFile,
+  importSource,
+  mappedValues,
+  readImportFile,
+  TimeZoneMode,
+  validateRecords,
+} from "@/lib/importData";
+import { displayTimeZone, formatTime, isValidTimeZone } from "@/lib/timezone";
+import {
+  importAstronomicalData,
+  ImportResult,
+} from "@/services/importAstronomicalData";
+
+type Step = "upload" | "mapping" | "review";
+
+// Select items can't have an empty value
+const UNMAPPED = "__unmapped__";
+
+// Rows shown in the preview; the counts cover the whole file
+const PREVIEW_LIMIT = 200;
+
+const STEPS: { value: Step; label: string }[] = [
+  { value: "upload", label: "1. Upload" },
+  { value: "mapping", label: "2. Map columns" },
+  { value: "review", label: "3. Review and import" },
+];
+
+const TIME_ZONE_MODES: { value: TimeZoneMode; label: string }[] = [
+  { value: "utc", label: "UTC" },
+  { value: "column", label: "Each row's time zone column" },
+  { value: "zone", label: "One time zone for the whole file" },
+];
+
+const ImportData = () => {
+  const [step, setStep] = useState<Step>("upload");
+  const [file, setFile] = useState<ImportFile | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [dayLengthUnit, setDayLengthUnit] = useState<DayLengthUnit>("seconds");
+  const [timeZoneMode, setTimeZoneMode] = useState<TimeZoneMode>("utc");
+  const [timeZone, setTimeZone] = useState("UTC");
+  const [errorsOnly, setErrorsOnly] = useState(false);
+  const [dryRun, setDryRun] = useState<ImportResult | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [progress, setProgress] = useState(0);
+
+  const source = file ? importSource(file.fileName) : "";
+  const timeZoneValid = timeZoneMode !== "zone" || isValidTimeZone(timeZone);
+  const missingFields = IMPORT_FIELDS.filter(
+    (item) => item.required && !mapping[item.field]
+  );
+
+  const results = useMemo(
+    () =>
+      file && timeZoneValid
+        ? validateRecords(
+            file,
+            { mapping, dayLengthUnit, timeZoneMode, timeZone },
+            source
+          )
+        : [],
+    [
+      file,
+      mapping,
+      dayLengthUnit,
+      timeZoneMode,
+      timeZone,
+      timeZoneValid,
+      source,
+    ]
+  );
+  const validRows = useMemo(
+    () => results.filter((result) => result.row).map((result) => result.row),
+    [results]
+  );
+  const invalidCount = results.length - validRows.length;
+  const preview = (
+    errorsOnly ? results.filter((result) => result.errors.length) : results
+  ).slice(0, PREVIEW_LIMIT);
+
+  const reset = () => {
+    setStep("upload");
+    setFile(null);
+    setDryRun(null);
+    setProgress(0);
+  };
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    event.target.value = "";
+    if (!selected) return;
+
+    const { value, error } = readImportFile(
+      selected.name,
+      await selected.text()
+    );
+    if (error) {
+      toast({
+        title: "Could not read the file",
+        description: error,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const guessed = guessMapping(value.columns);
+    setFile(value);
+    setMapping(guessed);
+    setDayLengthUnit(
+      detectDayLengthUnit(mappedValues(value, guessed, "day_length"))
+    );
+    setTimeZoneMode(guessed.timezone ? "column" : "utc");
+    setDryRun(null);
+    setStep("mapping");
+  };
+
+  const updateMapping = (field: ImportField, column: string) => {
+    const next = { ...mapping };
+    if (column === UNMAPPED) {
+      delete next[field];
+    } else {
+      next[field] = column;
+    }
+    setMapping(next);
+    if (field === "day_length") {
+      setDayLengthUnit(
+        detectDayLengthUnit(mappedValues(file, next, "day_length"))
+      );
+    }
+    setDryRun(null);
+  };
+
+  const handleDryRun = async () => {
+    setIsImporting(true);
+    const { data, error } = await importAstronomicalData(validRows, {
+      dryRun: true,
+    });
+    setIsImporting(false);
+
+    if (error) {
+      console.error("Error checking existing rows:", error);
+      toast({
+        title: "Error",
+        description: "Failed to check which rows already exist",
+        variant: "destructive",
+      });
+      return;
+    }
+    setDryRun(data);
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    setProgress(0);
+    const { data, error } = await importAstronomicalData(validRows, {
+      dryRun: false,
+      onProgress: (done, total) => setProgress((done / total) * 100),
+    });
+    setIsImporting(false);
+
+    if (error) {
+      console.error("Error importing data:", error);
+      toast({
+        title: "Import failed",
+        description: "The rows could not be imported. Please try again.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: data.failed ? "Import finished with errors" : "Import complete",
+      description: `${data.inserted} inserted, ${data.updated} updated${
+        data.failed ? `, ${data.failed} failed` : ""
+      } as ${source}`,
+      variant: data.failed ? "destructive" : "default",
+    });
+    if (!data.failed) reset();
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+      <div className="py-8 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-6xl mx-auto space-y-6">
+          <div className="flex flex-wrap gap-2">
+            {STEPS.map((item) => (
+              <Badge
+                key={item.value}
+                variant={item.value === step ? "default" : "outline"}
+              >
+                {item.label}
+              </Badge>
+            ))}
+          </div>
+
+          {step === "upload" && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Upload className="h-5 w-5" />
+                  Import Data
+                </CardTitle>
+                <CardDescription>
+                  Add sunrise and sunset logs from other tools to the collected
+                  data. Upload a CSV file, a JSON array of records or JSON
+                  Lines; the next steps map its columns and check every row
+                  before anything is saved.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Input
+                  type="file"
+                  accept=".csv,.tsv,.txt,.json,.jsonl,.ndjson"
+                  onChange={handleFile}
+                  className="max-w-sm"
+                />
+              </CardContent>
+            </Card>
+          )}
+
+          {step === "mapping" && file && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Map Columns</CardTitle>
+                <CardDescription>
+                  {file.fileName}: {file.records.length} records,{" "}
+                  {file.columns.length} columns. Day length and solar noon are
+                  worked out from sunrise and sunset when they aren't mapped.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                  {IMPORT_FIELDS.map((item) => (
+                    <div key={item.field}>
+                      <label className="block text-sm font-medium mb-1">
+                        {item.label}
+                        {item.required && (
+                          <span className="text-red-500"> *</span>
+                        )}
+                      </label>
+                      <Select
+                        value={mapping[item.field] ?? UNMAPPED}
+                        onValueChange={(value) =>
+                          updateMapping(item.field, value)
+                        }
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={UNMAPPED}>Not mapped</SelectItem>
+                          {file.columns.map((column) => (
+                            <SelectItem key={column} value={column}>
+                              {column}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <div>
+                    <label className="block text-sm font-medium mb-2">
+                      Day length unit
+                    </label>
+                    <RadioGroup
+                      value={dayLengthUnit}
+                      onValueChange={(value) => {
+                        setDayLengthUnit(value as DayLengthUnit);
+                        setDryRun(null);
+                      }}
+                    >
+                      {DAY_LENGTH_UNITS.map((unit) => (
+                        <div
+                          key={unit.value}
+                          className="flex items-center gap-2"
+                        >
+                          <RadioGroupItem
+                            value={unit.value}
+                            id={`day-length-${unit.value}`}
+                          />
+                          <label
+                            htmlFor={`day-length-${unit.value}`}
+                            className="text-sm cursor-pointer"
+                          >
+                            {unit.label}
+                          </label>
+                        </div>
+                      ))}
+                    </RadioGroup>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium mb-2">
+                      Read times without an offset in
+                    </label>
+                    <RadioGroup
+                      value={timeZoneMode}
+                      onValueChange={(value) => {
+                        setTimeZoneMode(value as TimeZoneMode);
+                        setDryRun(null);
+                      }}
+                    >
+                      {TIME_ZONE_MODES.map((mode) => (
+                        <div
+                          key={mode.value}
+                          className="flex items-center gap-2"
+                        >
+                          <RadioGroupItem
+                            value={mode.value}
+                            id={`time-zone-${mode.value}`}
+                            disabled={
+                              mode.value === "column" && !mapping.timezone
+                            }
+                          />
+                          <label
+                            htmlFor={`time-zone-${mode.value}`}
+                            className="text-sm cursor-pointer"
+                          >
+                            {mode.label}
+                          </label>
+                        </div>
+                      ))}
+                    </RadioGroup>
+                    {timeZoneMode === "zone" && (
+                      <div className="mt-2">
+                        <Input
+                          value={timeZone}
+                          onChange={(e) => {
+                            setTimeZone(e.target.value.trim());
+                            setDryRun(null);
+                          }}
+                          placeholder="e.g. Europe/Paris"
+                          className="max-w-xs"
+                        />
+                        {!timeZoneValid && (
+                          <p className="text-sm text-red-500 mt-1">
+                            Not a known IANA time zone
+                          </p>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                </div>
+
+                <div className="flex items-center justify-between gap-4">
+                  <Button variant="outline" onClick={reset}>
+                    Back
+                  </Button>
+                  <div className="flex items-center gap-4">
+                    {missingFields.length > 0 && (
+                      <span className="text-sm text-muted-foreground">
+                        Map {missingFields.map((item) => item.label).join(", ")}{" "}
+                        to continue
+                      </span>
+                    )}
+                    <Button
+                      onClick={() => setStep("review")}
+                      disabled={missingFields.length > 0 || !timeZoneValid}
+                    >
+                      Next
+                    </Button>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {step === "review" && file && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Review and Import</CardTitle>
+                <CardDescription>
+                  Rows are saved with the source{" "}
+                  <span className="font-mono">{source}</span>, replacing rows
+                  from an earlier import of the same file. Rows with errors are
+                  left out.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex flex-wrap items-center justify-between gap-4">
+                  <div className="flex items-center gap-4 text-sm">
+                    <span className="flex items-center gap-1">
+                      <CheckCircle2 className="h-4 w-4 text-green-600" />
+                      {validRows.length} valid
+                    </span>
+                    <span className="flex items-center gap-1">
+                      <AlertCircle className="h-4 w-4 text-red-500" />
+                      {invalidCount} with errors
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id="errors-only"
+                      checked={errorsOnly}
+                      onCheckedChange={setErrorsOnly}
+                    />
+                    <label htmlFor="errors-only" className="text-sm">
+                      Only rows with errors
+                    </label>
+                  </div>
+                </div>
+
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>#</TableHead>
+                        <TableHead>Location</TableHead>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Sunrise</TableHead>
+                        <TableHead>Sunset</TableHead>
+                        <TableHead>Day Length (min)</TableHead>
+                        <TableHead>Time zone</TableHead>
+                        <TableHead>Errors</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {preview.map(({ number, row, errors }) => {
+                        // Invalid rows show what the file says instead
+                        const record = file.records[number - 1];
+                        const raw = (field: ImportField) =>
+                          mapping[field]
+                            ? String(record[mapping[field]] ?? "")
+                            : "";
+
+                        return (
+                          <TableRow
+                            key={number}
+                            className={row ? undefined : "bg-red-50"}
+                          >
+                            <TableCell>{number}</TableCell>
+                            <TableCell>
+                              {row ? row.location : raw("location")}
+                            </TableCell>
+                            <TableCell>
+                              {row ? row.date : raw("date")}
+                            </TableCell>
+                            <TableCell>
+                              {row
+                                ? formatTime(
+                                    row.sunrise,
+                                    displayTimeZone("location", row)
+                                  )
+                                : raw("sunrise")}
+                            </TableCell>
+                            <TableCell>
+                              {row
+                                ? formatTime(
+                                    row.sunset,
+                                    displayTimeZone("location", row)
+                                  )
+                                : raw("sunset")}
+                            </TableCell>
+                            <TableCell>
+                              {row
+                                ? Math.round(row.day_length / 60)
+                                : raw("day_length")}
+                            </TableCell>
+                            <TableCell>{row?.timezone}</TableCell>
+                            <TableCell className="text-red-600">
+                              {errors.map((error, i) => (
+                                <div key={i}>{error}</div>
+                              ))}
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+                {preview.length === PREVIEW_LIMIT && (
+                  <p className="text-sm text-muted-foreground">
+                    Showing the first {PREVIEW_LIMIT} rows.
+                  </p>
+                )}
+
+                {dryRun && (
+                  <div className="rounded-md border p-3 text-sm">
+                    Dry run: {dryRun.inserted} rows would be inserted and{" "}
+                    {dryRun.updated} would replace rows already stored.
+                  </div>
+                )}
+                {isImporting && progress > 0 && <Progress value={progress} />}
+
+                <div className="flex items-center justify-between gap-4">
+                  <Button
+                    variant="outline"
+                    onClick={() => setStep("mapping")}
+                    disabled={isImporting}
+                  >
+                    Back
+                  </Button>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      onClick={handleDryRun}
+                      disabled={isImporting || validRows.length === 0}
+                    >
+                      Dry run
+                    </Button>
+                    <Button
+                      onClick={handleImport}
+                      disabled={
+                        isImporting || !dryRun || validRows.length === 0
+                      }
+                    >
+                      {isImporting
+                        ? "Importing..."
+                        : `Import ${validRows.length} rows`}
+                    </Button>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportData;
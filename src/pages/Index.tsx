@@ -8,115 +8,117 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
-import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { toast } from "@/components/ui/use-toast";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { Calendar } from "@/components/ui/calendar";
 import {
   Popover,
   PopoverContent,
   PopoverTrigger,
 } from "@/components/ui/popover";
-import { format, addDays, eachDayOfInterval } from "date-fns";
+import { format, addDays } from "date-fns";
 import { CalendarIcon } from "lucide-react";
 import { cn } from "@/lib/utils";
 import Header from "@/components/Header";
-import { getCoordinates } from "@/services/geocoding";
-import { fetchAstronimicalData } from "@/services/fetchAstronimicalData";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Progress } from "@/components/ui/progress";
-import { saveAstronomicalData } from "@/services/saveAstronomicalData";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { SaveMode } from "@/services/saveAstronomicalData";
+import { distinctLabels } from "@/services/geocoding";
+import LocationPicker, { PickedLocation } from "@/components/LocationPicker";
+import CollectionProgress from "@/components/CollectionProgress";
+import CollectionJobsPanel from "@/components/CollectionJobsPanel";
+import { useCollectionJobs } from "@/hooks/use-collection-jobs";
+import { defaultProviderIds, providers } from "@/services/providers";
+import { Checkbox } from "@/components/ui/checkbox";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { parseCoordinatePair } from "@/lib/coordinates";
+
+const CONCURRENCY_OPTIONS = [1, 2, 4, 8];
 
 const Index = () => {
-  const [location, setLocation] = useState("");
+  const [pickedLocations, setPickedLocations] = useState<PickedLocation[]>([]);
   const [date, setDate] = useState<Date>(new Date());
   const [dateFrom, setDateFrom] = useState<Date>(new Date());
   const [dateTo, setDateTo] = useState<Date>(addDays(new Date(), 7));
   const [dateMode, setDateMode] = useState<"single" | "range">("single");
   const [isLoading, setIsLoading] = useState(false);
-  const [progress, setProgress] = useState(0);
+  const [concurrency, setConcurrency] = useState(4);
+  const [selectedProviders, setSelectedProviders] =
+    useState<string[]>(defaultProviderIds);
+  const [saveMode, setSaveMode] = useState<SaveMode>("skip");
+  const {
+    jobs,
+    progress,
+    runningIds,
+    startJob,
+    resumeJob,
+    pauseJob,
+    cancelJob,
+  } = useCollectionJobs();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  // Set when arriving from a click on the map
+  const mapCoordinates = parseCoordinatePair(
+    `${searchParams.get("lat")}, ${searchParams.get("lng")}`
+  ).value;
 
   const fetchAstronomicalData = async () => {
-    if (!location.trim()) {
+    if (pickedLocations.length === 0) {
       toast({
         title: "Error",
-        description: "Please enter a location",
+        description: "Please pick at least one location",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (selectedProviders.length === 0) {
+      toast({
+        title: "Error",
+        description: "Please select at least one data source",
         variant: "destructive",
       });
       return;
     }
 
     setIsLoading(true);
-    setProgress(0);
 
     try {
-      const coordinates = await getCoordinates(location);
-
-      if (!coordinates) {
-        throw new Error("Could not find coordinates for the given location");
+      if (dateMode === "range" && dateFrom > dateTo) {
+        throw new Error("Start date must be before end date");
       }
 
-      const { lat, lng } = coordinates;
-
-      let datesToProcess: Date[];
-
-      if (dateMode === "single") {
-        datesToProcess = [date];
-      } else {
-        if (dateFrom > dateTo) {
-          throw new Error("Start date must be before end date");
-        }
-
-        datesToProcess = eachDayOfInterval({
-          start: dateFrom,
-          end: dateTo,
-        });
-
-        if (datesToProcess.length > 30) {
-          toast({
-            title: "Warning",
-            description: "Date range limited to 30 days maximum",
-            variant: "destructive",
-          });
-          datesToProcess = datesToProcess.slice(0, 30);
-        }
-      }
+      // Places sharing a label are stored under distinct names
+      const labels = distinctLabels(
+        pickedLocations.map(({ candidate }) => candidate)
+      );
 
-      let completedDates = 0;
-      const totalDates = datesToProcess.length;
-
-      for (const currentDate of datesToProcess) {
-        const formattedDate = format(currentDate, "yyyy-MM-dd");
-
-        const apiResponses = await fetchAstronimicalData(
-          lat,
-          lng,
-          formattedDate
-        );
-
-        if (!apiResponses || apiResponses.length === 0) {
-          console.warn(`Failed to fetch data for ${formattedDate}`);
-          continue;
-        }
-
-        await saveAstronomicalData(
-          apiResponses,
-          location,
-          lat,
-          lng,
-          formattedDate
-        );
-
-        completedDates++;
-        setProgress(Math.floor((completedDates / totalDates) * 100));
-      }
-
-      toast({
-        title: "Success",
-        description: `Collected astronomical data for ${datesToProcess.length} date(s) successfully!`,
-      });
+      // Ranges of any length run as a job that can be paused and resumed
+      await startJob(
+        {
+          locations: pickedLocations.map(({ candidate }, index) => ({
+            name: labels[index],
+            latitude: candidate.latitude,
+            longitude: candidate.longitude,
+            country: candidate.country,
+          })),
+          dateFrom: format(
+            dateMode === "single" ? date : dateFrom,
+            "yyyy-MM-dd"
+          ),
+          dateTo: format(dateMode === "single" ? date : dateTo, "yyyy-MM-dd"),
+          providerIds: selectedProviders,
+          saveMode,
+        },
+        concurrency
+      );
 
       //navigate("/visualize");
     } catch (error) {
@@ -130,10 +132,15 @@ const Index = () => {
       });
     } finally {
       setIsLoading(false);
-      setProgress(0);
     }
   };
 
+  const toggleProvider = (id: string, checked: boolean) => {
+    setSelectedProviders((current) =>
+      checked ? [...current, id] : current.filter((item) => item !== id)
+    );
+  };
+
   return (
     <div className="min-h-screen bg-gray-50">
       <Header />
@@ -150,16 +157,12 @@ const Index = () => {
             </CardHeader>
             <CardContent>
               <div className="space-y-4">
-                <div>
-                  <label className="block text-sm font-medium mb-1">
-                    Location
-                  </label>
-                  <Input
-                    placeholder="Enter a city name (e.g., New York)"
-                    value={location}
-                    onChange={(e) => setLocation(e.target.value)}
-                  />
-                </div>
+                <LocationPicker
+                  value={pickedLocations}
+                  onChange={setPickedLocations}
+                  disabled={isLoading}
+                  initialCoordinates={mapCoordinates}
+                />
 
                 <Tabs
                   defaultValue="single"
@@ -280,21 +283,99 @@ const Index = () => {
                     </div>
 
                     <div className="text-xs text-muted-foreground">
-                      Note: Maximum range is limited to 30 days to prevent
-                      excessive API usage.
+                      Long ranges run as a job that can be paused and resumed
+                      from the jobs list below, even after reloading the page.
                     </div>
                   </TabsContent>
                 </Tabs>
-              </div>
 
-              {isLoading && progress > 0 && (
-                <div className="mt-4">
-                  <Progress value={progress} className="h-2" />
-                  <p className="text-xs text-center mt-1 text-muted-foreground">
-                    {progress}% complete
-                  </p>
+                <div>
+                  <label className="block text-sm font-medium mb-1">
+                    Data Sources
+                  </label>
+                  <div className="space-y-2">
+                    {providers.map((provider) => (
+                      <div key={provider.id} className="flex items-start gap-2">
+                        <Checkbox
+                          id={`provider-${provider.id}`}
+                          checked={selectedProviders.includes(provider.id)}
+                          onCheckedChange={(checked) =>
+                            toggleProvider(provider.id, checked === true)
+                          }
+                          disabled={isLoading}
+                        />
+                        <label
+                          htmlFor={`provider-${provider.id}`}
+                          className="text-sm leading-none cursor-pointer"
+                        >
+                          {provider.name}
+                          <span className="block text-xs text-muted-foreground mt-1">
+                            {provider.description}
+                          </span>
+                        </label>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium mb-1">
+                    Already Collected Rows
+                  </label>
+                  <RadioGroup
+                    value={saveMode}
+                    onValueChange={(value) => setSaveMode(value as SaveMode)}
+                    disabled={isLoading}
+                  >
+                    <div className="flex items-center gap-2">
+                      <RadioGroupItem value="skip" id="save-mode-skip" />
+                      <label
+                        htmlFor="save-mode-skip"
+                        className="text-sm cursor-pointer"
+                      >
+                        Skip already collected dates
+                      </label>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <RadioGroupItem value="refresh" id="save-mode-refresh" />
+                      <label
+                        htmlFor="save-mode-refresh"
+                        className="text-sm cursor-pointer"
+                      >
+                        Refresh existing rows
+                      </label>
+                    </div>
+                  </RadioGroup>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium mb-1">
+                    Parallel Requests
+                  </label>
+                  <Select
+                    value={String(concurrency)}
+                    onValueChange={(value) => setConcurrency(Number(value))}
+                    disabled={isLoading}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CONCURRENCY_OPTIONS.map((option) => (
+                        <SelectItem key={option} value={String(option)}>
+                          {option}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                 </div>
-              )}
+              </div>
+
+              {runningIds
+                .filter((id) => progress[id]?.total > 0)
+                .map((id) => (
+                  <CollectionProgress key={id} progress={progress[id]} />
+                ))}
             </CardContent>
             <CardFooter>
               <Button
@@ -353,6 +434,16 @@ const Index = () => {
             </div>
           </div>
         </div>
+
+        <div className="max-w-4xl mx-auto">
+          <CollectionJobsPanel
+            jobs={jobs}
+            runningIds={runningIds}
+            onPause={pauseJob}
+            onResume={(id) => resumeJob(id, concurrency)}
+            onCancel={cancelJob}
+          />
+        </div>
       </div>
     </div>
   );
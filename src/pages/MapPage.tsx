@@ -0,0 +1,330 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { addDays, format, parseISO } from "date-fns";
+import { Globe, Pause, Play } from "lucide-react";
+import Header from "@/components/Header";
+import DaylightLayer from "@/components/DaylightLayer";
+import WorldMap from "@/components/WorldMap";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { toast } from "@/components/ui/use-toast";
+import { Coordinates } from "@/lib/coordinates";
+import {
+  computePhase,
+  DAYLIGHT_PHASES,
+  DaylightPhase,
+  storedPhase,
+  SunTimesRow,
+} from "@/lib/daylight";
+import { project } from "@/lib/worldMap";
+import { TWILIGHT_FIELDS } from "@/services/providers/types";
+import {
+  CollectedLocation,
+  fetchAllAstronomicalData,
+  getCollectedLocations,
+} from "@/services/queryAstronomicalData";
+
+// Marker radius at full zoom-out, in map units (degrees)
+const MARKER_RADIUS = 1.6;
+const MINUTES_PER_DAY = 24 * 60;
+// Simulated minutes per animation frame, and frames per second
+const PLAY_STEP_MINUTES = 10;
+const PLAY_INTERVAL_MS = 100;
+
+interface LocationPhase {
+  phase: DaylightPhase;
+  // True when no stored row covers the instant and the phase was computed
+  computed: boolean;
+}
+
+const todayUtc = () => new Date().toISOString().slice(0, 10);
+
+const minutesNowUtc = () => {
+  const now = new Date();
+  return now.getUTCHours() * 60 + now.getUTCMinutes();
+};
+
+const formatMinutes = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(
+    minutes % 60
+  ).padStart(2, "0")}`;
+
+const phaseInfo = (phase: DaylightPhase) =>
+  DAYLIGHT_PHASES.find((item) => item.value === phase);
+
+const twilightCount = (row: SunTimesRow) =>
+  TWILIGHT_FIELDS.filter((field) => row[field]).length;
+
+const MapPage = () => {
+  const [locations, setLocations] = useState<CollectedLocation[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [hovered, setHovered] = useState<CollectedLocation | null>(null);
+  const [showDaylight, setShowDaylight] = useState(false);
+  // The instant shown, as a UTC date and minutes into it
+  const [day, setDay] = useState(todayUtc);
+  const [minutes, setMinutes] = useState(minutesNowUtc);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [sunRows, setSunRows] = useState<
+    (SunTimesRow & { location: string })[]
+  >([]);
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    const fetchLocations = async () => {
+      const { data, error } = await getCollectedLocations();
+      if (error) {
+        console.error("Error fetching locations:", error);
+        toast({
+          title: "Error",
+          description: "Failed to load collected locations",
+          variant: "destructive",
+        });
+      } else {
+        setLocations(data);
+      }
+      setIsLoading(false);
+    };
+
+    fetchLocations();
+  }, []);
+
+  // Rows of the day before and after too: a row covers the 24 hours around
+  // its location's solar noon, which can fall on a neighbouring UTC date
+  useEffect(() => {
+    if (!showDaylight) return;
+    let cancelled = false;
+
+    const fetchRows = async () => {
+      const date = parseISO(day);
+      const { data, error } = await fetchAllAstronomicalData({
+        dateFrom: format(addDays(date, -1), "yyyy-MM-dd"),
+        dateTo: format(addDays(date, 1), "yyyy-MM-dd"),
+      });
+      if (cancelled) return;
+      if (error) {
+        console.error("Error fetching sun times:", error);
+        return;
+      }
+      setSunRows(data);
+    };
+
+    fetchRows();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [showDaylight, day]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    const interval = setInterval(
+      () =>
+        setMinutes(
+          (current) => (current + PLAY_STEP_MINUTES) % MINUTES_PER_DAY
+        ),
+      PLAY_INTERVAL_MS
+    );
+    return () => clearInterval(interval);
+  }, [isPlaying]);
+
+  const time = useMemo(
+    () => new Date(Date.parse(`${day}T00:00:00Z`) + minutes * 60000),
+    [day, minutes]
+  );
+
+  // The stored phase from the source with the most twilight times,
+  // otherwise the computed one
+  const phases = useMemo(() => {
+    if (!showDaylight) return {};
+
+    return locations.reduce((result, location) => {
+      const phase = sunRows
+        .filter((row) => row.location === location.location)
+        .sort((a, b) => twilightCount(b) - twilightCount(a))
+        .map((row) => storedPhase(row, time))
+        .find((item) => item !== null);
+
+      result[location.location] = phase
+        ? { phase, computed: false }
+        : {
+            phase: computePhase(location.latitude, location.longitude, time),
+            computed: true,
+          };
+      return result;
+    }, {} as Record<string, LocationPhase>);
+  }, [showDaylight, locations, sunRows, time]);
+
+  const showLocation = (location: CollectedLocation) =>
+    navigate(`/visualize?location=${encodeURIComponent(location.location)}`);
+
+  const collectAt = ({ latitude, longitude }: Coordinates) =>
+    navigate(`/?lat=${latitude.toFixed(4)}&lng=${longitude.toFixed(4)}`);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+      <div className="py-8 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-6xl mx-auto">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Globe className="h-5 w-5" />
+                Collected Locations
+              </CardTitle>
+              <CardDescription>
+                Click a marker to visualize its data, or anywhere else on the
+                map to collect data for that point. Scroll to zoom and drag to
+                pan. Turn on day and night to see which locations were in
+                daylight at a given moment.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="flex flex-wrap items-center gap-4 mb-4">
+                <label className="flex items-center gap-2 text-sm font-medium">
+                  <Switch
+                    checked={showDaylight}
+                    onCheckedChange={(checked) => {
+                      setShowDaylight(checked);
+                      if (!checked) setIsPlaying(false);
+                    }}
+                  />
+                  Day and night
+                </label>
+                {showDaylight && (
+                  <>
+                    <Input
+                      type="date"
+                      value={day}
+                      onChange={(e) => e.target.value && setDay(e.target.value)}
+                      className="w-40"
+                    />
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      className="h-9 w-9"
+                      title={isPlaying ? "Pause" : "Play through the day"}
+                      onClick={() => setIsPlaying((current) => !current)}
+                    >
+                      {isPlaying ? (
+                        <Pause className="h-4 w-4" />
+                      ) : (
+                        <Play className="h-4 w-4" />
+                      )}
+                    </Button>
+                    <Slider
+                      value={[minutes]}
+                      onValueChange={([value]) => setMinutes(value)}
+                      min={0}
+                      max={MINUTES_PER_DAY - 1}
+                      step={5}
+                      className="flex-1 min-w-48"
+                    />
+                    <span className="text-sm tabular-nums w-20">
+                      {formatMinutes(minutes)} UTC
+                    </span>
+                  </>
+                )}
+              </div>
+
+              <WorldMap onMapClick={collectAt}>
+                {(zoom) => (
+                  <>
+                    {showDaylight && <DaylightLayer time={time} zoom={zoom} />}
+                    {locations.map((location) => {
+                      const { x, y } = project(
+                        location.latitude,
+                        location.longitude
+                      );
+                      const phase = phases[location.location];
+                      const color = phase ? phaseInfo(phase.phase).color : null;
+                      return (
+                        <circle
+                          key={location.location}
+                          cx={x}
+                          cy={y}
+                          r={MARKER_RADIUS / Math.sqrt(zoom)}
+                          className={
+                            color
+                              ? "cursor-pointer"
+                              : "fill-blue-600 stroke-white cursor-pointer hover:fill-blue-800"
+                          }
+                          fill={
+                            color
+                              ? phase.computed
+                                ? "white"
+                                : color
+                              : undefined
+                          }
+                          stroke={color ?? undefined}
+                          strokeWidth={(color ? 0.8 : 0.4) / zoom}
+                          onClick={(event) => {
+                            event.stopPropagation();
+                            showLocation(location);
+                          }}
+                          onPointerEnter={() => setHovered(location)}
+                          onPointerLeave={() => setHovered(null)}
+                        >
+                          <title>{location.location}</title>
+                        </circle>
+                      );
+                    })}
+                  </>
+                )}
+              </WorldMap>
+
+              {showDaylight && (
+                <div className="flex flex-wrap items-center gap-4 mt-2 text-xs text-muted-foreground">
+                  {DAYLIGHT_PHASES.map((item) => (
+                    <span key={item.value} className="flex items-center gap-1">
+                      <span
+                        className="inline-block h-3 w-3 rounded-full"
+                        style={{ backgroundColor: item.color }}
+                      />
+                      {item.label}
+                    </span>
+                  ))}
+                  <span className="flex items-center gap-1">
+                    <span className="inline-block h-3 w-3 rounded-full border-2 border-slate-500 bg-white" />
+                    Computed, no stored row for this time
+                  </span>
+                </div>
+              )}
+
+              <div className="mt-2 h-5 text-sm text-muted-foreground">
+                {hovered ? (
+                  <span>
+                    <span className="font-medium text-foreground">
+                      {hovered.location}
+                    </span>{" "}
+                    · {hovered.latitude.toFixed(4)},{" "}
+                    {hovered.longitude.toFixed(4)} · {hovered.rows} rows from{" "}
+                    {hovered.firstDate} to {hovered.lastDate}
+                    {phases[hovered.location] &&
+                      ` · ${phaseInfo(phases[hovered.location].phase).label}${
+                        phases[hovered.location].computed ? " (computed)" : ""
+                      }`}
+                  </span>
+                ) : isLoading ? (
+                  "Loading locations..."
+                ) : (
+                  `${locations.length} locations with collected data`
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MapPage;
@@ -0,0 +1,276 @@
+import { useEffect, useMemo, useState } from "react";
+import { CalendarDays, MapPin, Pencil, Plus, Trash2 } from "lucide-react";
+import Header from "@/components/Header";
+import PlaceDialog from "@/components/PlaceDialog";
+import SunCalendarDialog from "@/components/SunCalendarDialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { toast } from "@/components/ui/use-toast";
+import {
+  createPlace,
+  deletePlace,
+  getPlaces,
+  normalizeQuery,
+  Place,
+  PlaceInput,
+  updatePlace,
+} from "@/services/placeCache";
+
+const Places = () => {
+  const [places, setPlaces] = useState<Place[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [filter, setFilter] = useState("");
+  const [editing, setEditing] = useState<Place | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [deleting, setDeleting] = useState<Place | null>(null);
+  const [calendarPlace, setCalendarPlace] = useState<Place | null>(null);
+
+  const fetchPlaces = async () => {
+    const { data, error } = await getPlaces();
+    if (error) {
+      console.error("Error fetching places:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load saved places",
+        variant: "destructive",
+      });
+    } else {
+      setPlaces(data || []);
+    }
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    fetchPlaces();
+  }, []);
+
+  const filteredPlaces = useMemo(() => {
+    const query = normalizeQuery(filter);
+    if (!query) return places;
+    return places.filter(
+      (place) =>
+        place.label.toLowerCase().includes(query) ||
+        place.aliases.some((alias) => alias.includes(query))
+    );
+  }, [places, filter]);
+
+  const openDialog = (place: Place | null) => {
+    setEditing(place);
+    setDialogOpen(true);
+  };
+
+  const handleSave = async (input: PlaceInput) => {
+    const { error } = editing
+      ? await updatePlace(editing.id, input)
+      : await createPlace(input);
+
+    if (error) {
+      console.error("Error saving place:", error);
+      toast({
+        title: "Error",
+        description:
+          error.code === "23505"
+            ? `A place labelled "${input.label}" already exists`
+            : "Failed to save the place",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setDialogOpen(false);
+    toast({ title: "Saved", description: input.label });
+    await fetchPlaces();
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+
+    const { error } = await deletePlace(deleting.id);
+    if (error) {
+      console.error("Error deleting place:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete the place",
+        variant: "destructive",
+      });
+    } else {
+      await fetchPlaces();
+    }
+    setDeleting(null);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+      <div className="py-8 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-6xl mx-auto">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <MapPin className="h-5 w-5" />
+                Saved Places
+              </CardTitle>
+              <CardDescription>
+                Places found by the geocoder are saved here and reused. Fix a
+                bad match once and every later lookup uses the corrected
+                coordinates.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="flex items-center justify-between gap-4 mb-4">
+                <Input
+                  placeholder="Filter by name or alias..."
+                  value={filter}
+                  onChange={(e) => setFilter(e.target.value)}
+                  className="max-w-xs"
+                />
+                <Button onClick={() => openDialog(null)} className="gap-1">
+                  <Plus className="h-4 w-4" />
+                  Add Place
+                </Button>
+              </div>
+
+              {isLoading ? (
+                <div className="text-center py-8 text-muted-foreground">
+                  Loading places...
+                </div>
+              ) : filteredPlaces.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">
+                  {places.length === 0
+                    ? "No places saved yet. They are added as locations are looked up."
+                    : "No places match the filter."}
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Place</TableHead>
+                      <TableHead>Country</TableHead>
+                      <TableHead className="text-right">Latitude</TableHead>
+                      <TableHead className="text-right">Longitude</TableHead>
+                      <TableHead>Aliases</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {filteredPlaces.map((place) => (
+                      <TableRow key={place.id}>
+                        <TableCell>
+                          <div className="font-medium">{place.label}</div>
+                          <div className="text-xs text-muted-foreground flex items-center gap-1">
+                            {place.type}
+                            {place.edited && (
+                              <Badge variant="outline">edited</Badge>
+                            )}
+                          </div>
+                        </TableCell>
+                        <TableCell>{place.country ?? "—"}</TableCell>
+                        <TableCell className="text-right tabular-nums">
+                          {place.latitude.toFixed(4)}
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums">
+                          {place.longitude.toFixed(4)}
+                        </TableCell>
+                        <TableCell className="text-xs text-muted-foreground max-w-xs truncate">
+                          {place.aliases.join(", ")}
+                        </TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            title="Sun calendar"
+                            onClick={() => setCalendarPlace(place)}
+                          >
+                            <CalendarDays className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            title="Edit"
+                            onClick={() => openDialog(place)}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            title="Delete"
+                            onClick={() => setDeleting(place)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      <PlaceDialog
+        place={editing}
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        onSave={handleSave}
+      />
+
+      <SunCalendarDialog
+        place={calendarPlace}
+        onClose={() => setCalendarPlace(null)}
+      />
+
+      <AlertDialog
+        open={deleting !== null}
+        onOpenChange={(open) => !open && setDeleting(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleting?.label}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The next lookup of this place asks the geocoding service again.
+              Collected data is not affected.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default Places;
@@ -1,6 +1,5 @@
 import { useState, useEffect, useMemo } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { ScrollArea } from "@/components/ui/scroll-area";
 import {
   XAxis,
   YAxis,
@@ -19,7 +18,7 @@ import {
   TooltipProps as RechartTooltipProps,
 } from "recharts";
 import { Button } from "@/components/ui/button";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import Header from "@/components/Header";
 import { Input } from "@/components/ui/input";
 import { Calendar } from "@/components/ui/calendar";
@@ -29,242 +28,177 @@ import {
   PopoverTrigger,
 } from "@/components/ui/popover";
 import { CalendarIcon } from "lucide-react";
-import { format, isBefore, isAfter, parseISO } from "date-fns";
+import { format, isBefore } from "date-fns";
 import { cn } from "@/lib/utils";
+import { Sun, Moon, FilterX } from "lucide-react";
 import {
-  Table,
-  TableBody,
-  TableCell,
-  TableHead,
-  TableHeader,
-  TableRow,
-} from "@/components/ui/table";
-import { Sun, Moon, ArrowUpDown, FilterX } from "lucide-react";
-import { getAstronomicalData } from "@/services/getAstronomicalData";
-
-interface AstronomicalData {
-  id: string;
-  location: string;
-  latitude: number;
-  longitude: number;
-  date: string;
-  sunrise: string;
-  sunset: string;
-  day_length: number;
-  solar_noon: string;
-  source: string;
-  created_at: string;
-}
-
-type SortableColumn =
-  | "location"
-  | "date"
-  | "day_length"
-  | "sunrise"
-  | "sunset"
-  | "source";
+  AstronomicalDataFilters,
+  AstronomicalSummary,
+  ChartPoint,
+  fetchChartPoints,
+  getAstronomicalSummary,
+} from "@/services/queryAstronomicalData";
+import { providers } from "@/services/providers";
+import AstronomicalDataTable from "@/components/AstronomicalDataTable";
+import DayLengthChart from "@/components/DayLengthChart";
+import DaylightBandChart from "@/components/DaylightBandChart";
+import TwilightBandChart from "@/components/TwilightBandChart";
+import PeopleInSpaceCard from "@/components/PeopleInSpaceCard";
+import SolarNoonChart from "@/components/SolarNoonChart";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  RECONCILE_STRATEGIES,
+  ReconcileStrategy,
+  reconcileRows,
+} from "@/lib/reconcile";
+
+// Delay before a typed location filter is sent to the database
+const FILTER_DEBOUNCE_MS = 300;
+
+const ALL_SOURCES = "all";
 
 const Visualize = () => {
-  const [astronomicalData, setAstronomicalData] = useState<AstronomicalData[]>(
-    []
-  );
+  const [summary, setSummary] = useState<AstronomicalSummary | null>(null);
+  const [chartPoints, setChartPoints] = useState<ChartPoint[]>([]);
   const [isLoading, setIsLoading] = useState(true);
-  const [sortBy, setSortBy] = useState<SortableColumn>("date");
-  const [sortOrder, setSortOrder] = useState<"asc" | "desc">("desc");
-  const [cityFilter, setCityFilter] = useState<string>("");
+  const [searchParams] = useSearchParams();
+  // Set when arriving from a marker on the map
+  const initialLocation = searchParams.get("location") ?? "";
+  const [cityFilter, setCityFilter] = useState<string>(initialLocation);
+  const [debouncedCityFilter, setDebouncedCityFilter] =
+    useState<string>(initialLocation);
+  const [sourceFilter, setSourceFilter] = useState<string>(ALL_SOURCES);
   const [startDate, setStartDate] = useState<Date | undefined>(undefined);
   const [endDate, setEndDate] = useState<Date | undefined>(undefined);
+  const [dataMode, setDataMode] = useState<"raw" | "reconciled">("raw");
+  const [reconcileStrategy, setReconcileStrategy] =
+    useState<ReconcileStrategy>("median");
+  const [preferredSource, setPreferredSource] = useState<string>("");
   const navigate = useNavigate();
 
   useEffect(() => {
+    const timeout = setTimeout(
+      () => setDebouncedCityFilter(cityFilter),
+      FILTER_DEBOUNCE_MS
+    );
+    return () => clearTimeout(timeout);
+  }, [cityFilter]);
+
+  const filters = useMemo<AstronomicalDataFilters>(
+    () => ({
+      location: debouncedCityFilter,
+      dateFrom: startDate ? format(startDate, "yyyy-MM-dd") : undefined,
+      dateTo: endDate ? format(endDate, "yyyy-MM-dd") : undefined,
+      source: sourceFilter === ALL_SOURCES ? undefined : sourceFilter,
+    }),
+    [debouncedCityFilter, startDate, endDate, sourceFilter]
+  );
+
+  const hasFilters = Boolean(
+    cityFilter || startDate || endDate || sourceFilter !== ALL_SOURCES
+  );
+
+  // The stats and charts are aggregated by the database; the table pages
+  // through the same filters on its own
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchData = async () => {
+      setIsLoading(true);
+      try {
+        const [summaryResult, pointsResult] = await Promise.all([
+          getAstronomicalSummary(filters),
+          fetchChartPoints(filters),
+        ]);
+        if (summaryResult.error) throw summaryResult.error;
+        if (pointsResult.error) throw pointsResult.error;
+        if (cancelled) return;
+
+        setSummary(summaryResult.data);
+        setChartPoints(pointsResult.data);
+      } catch (error) {
+        console.error("Error fetching data:", error);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
     fetchData();
-  }, []);
-
-  const fetchData = async () => {
-    setIsLoading(true);
-    try {
-      const { data, error } = await getAstronomicalData();
-      if (error) throw error;
-
-      setAstronomicalData((data as AstronomicalData[]) || []);
-    } catch (error) {
-      console.error("Error fetching data:", error);
-    } finally {
-      setIsLoading(false);
-    }
-  };
 
-  const handleSort = (column: SortableColumn) => {
-    if (sortBy === column) {
-      setSortOrder(sortOrder === "asc" ? "desc" : "asc");
-    } else {
-      setSortBy(column);
-      setSortOrder("asc");
-    }
-  };
+    return () => {
+      cancelled = true;
+    };
+  }, [filters]);
 
   const handleClearFilters = () => {
     setCityFilter("");
     setStartDate(undefined);
     setEndDate(undefined);
+    setSourceFilter(ALL_SOURCES);
   };
 
-  const isSameDay = (date1: Date, date2: Date) => {
-    return (
-      date1.getFullYear() === date2.getFullYear() &&
-      date1.getMonth() === date2.getMonth() &&
-      date1.getDate() === date2.getDate()
-    );
-  };
-
-  function applyFilters<T extends { location: string; date: string }>(
-    data: T[]
-  ): T[] {
-    let filteredData = data;
-    if (cityFilter) {
-      filteredData = filteredData.filter((item) =>
-        item.location.toLowerCase().includes(cityFilter.toLowerCase())
-      );
-    }
-
-    if (startDate || endDate) {
-      filteredData = filteredData.filter((item) => {
-        const itemDate = new Date(item.date);
-
-        if (
-          startDate &&
-          !isAfter(itemDate, startDate) &&
-          !isSameDay(itemDate, startDate)
-        ) {
-          return false;
-        }
-
-        // Check if date is before end date (if set)
-        if (
-          endDate &&
-          !isBefore(itemDate, endDate) &&
-          !isSameDay(itemDate, endDate)
-        ) {
-          return false;
-        }
-
-        return true;
-      });
-    }
-    return filteredData;
-  }
-
-  const processedData = useMemo(() => {
-    if (!astronomicalData.length) return [];
-
-    return astronomicalData.map((item) => ({
-      location: item.location,
-      date: new Date(item.date).toLocaleDateString(),
-      dayLength: Math.round(item.day_length / 60), // Convert seconds to minutes
-      sunrise: new Date(item.sunrise).toLocaleTimeString(),
-      sunset: new Date(item.sunset).toLocaleTimeString(),
-      latitude: item.latitude,
-      longitude: item.longitude,
-      source: item.source,
-    }));
-  }, [astronomicalData]);
-
-  const sortedData = useMemo(() => {
-    if (!processedData.length) return [];
+  const rowCount = summary?.rows ?? 0;
 
-    const filteredData = applyFilters(processedData);
+  const sources = useMemo(
+    () => (summary?.sources ?? []).map((item) => item.source),
+    [summary]
+  );
 
-    return [...filteredData].sort((a, b) => {
-      let comparison = 0;
+  // Providers are always offered so the filter is usable before any of them
+  // has matching rows; imported or legacy sources come from the data
+  const sourceOptions = useMemo(
+    () =>
+      Array.from(
+        new Set([...providers.map((provider) => provider.id), ...sources])
+      ).sort(),
+    [sources]
+  );
 
-      if (sortBy === "location")
-        comparison = a.location.localeCompare(b.location);
-      else if (sortBy === "date")
-        comparison = new Date(a.date).getTime() - new Date(b.date).getTime();
-      else if (sortBy === "day_length") comparison = a.dayLength - b.dayLength;
-      else if (sortBy === "sunrise")
-        comparison = a.sunrise.localeCompare(b.sunrise);
-      else if (sortBy === "sunset")
-        comparison = a.sunset.localeCompare(b.sunset);
-      else if (sortBy === "source")
-        comparison = a.source.localeCompare(b.source);
+  // Every chart uses either the points of each source or a single
+  // consensus point per location and date
+  const viewData = useMemo(() => {
+    if (dataMode === "raw") return chartPoints;
 
-      return sortOrder === "asc" ? comparison : -comparison;
+    return reconcileRows(chartPoints, {
+      strategy: reconcileStrategy,
+      preferredSource: preferredSource || sources[0],
     });
-  }, [processedData, sortBy, sortOrder, cityFilter, startDate, endDate]);
+  }, [chartPoints, dataMode, reconcileStrategy, preferredSource, sources]);
 
+  // Day lengths in minutes
   const stats = useMemo(() => {
-    if (!astronomicalData.length) return null;
-
-    const filteredData = applyFilters(astronomicalData);
-
-    if (filteredData.length === 0) return null;
-
-    const totalDayLength = filteredData.reduce(
-      (sum, item) => sum + item.day_length,
-      0
-    );
-    const avgDayLength = Math.round(totalDayLength / filteredData.length / 60); // in minutes
-
-    const dayLengths = filteredData.map((item) => item.day_length / 60); // in minutes
-    const maxDayLength = Math.round(Math.max(...dayLengths));
-    const minDayLength = Math.round(Math.min(...dayLengths));
-
-    const locationGroups = filteredData.reduce((groups, item) => {
-      const location = item.location;
-      if (!groups[location]) {
-        groups[location] = [];
-      }
-      groups[location].push(item);
-      return groups;
-    }, {} as Record<string, AstronomicalData[]>);
-
-    const locationStats = Object.entries(locationGroups).map(
-      ([location, items]) => {
-        const avgDayLengthForLocation = Math.round(
-          items.reduce((sum, item) => sum + item.day_length, 0) /
-            items.length /
-            60
-        );
-        return { location, avgDayLength: avgDayLengthForLocation };
-      }
-    );
-
-    const sourceGroups = filteredData.reduce((groups, item) => {
-      const source = item.source;
-      if (!groups[source]) {
-        groups[source] = 0;
-      }
-      groups[source]++;
-      return groups;
-    }, {} as Record<string, number>);
-
-    const sourceData = Object.entries(sourceGroups).map(([name, value]) => ({
-      name,
-      value,
-    }));
+    if (!summary?.rows) return null;
 
     return {
-      avgDayLength,
-      maxDayLength,
-      minDayLength,
-      locationStats,
-      sourceData,
+      avgDayLength: Math.round(summary.avgDayLength / 60),
+      maxDayLength: Math.round(summary.maxDayLength / 60),
+      minDayLength: Math.round(summary.minDayLength / 60),
+      locationStats: summary.locations.map((item) => ({
+        location: item.location,
+        avgDayLength: Math.round(item.avgDayLength / 60),
+      })),
+      sourceData: summary.sources.map((item) => ({
+        name: item.source,
+        value: item.rows,
+      })),
     };
-  }, [astronomicalData, cityFilter, startDate, endDate]);
+  }, [summary]);
 
   const scatterData = useMemo(() => {
-    if (!astronomicalData.length) return [];
-
-    const filteredData = applyFilters(astronomicalData);
-
-    return filteredData.map((item) => ({
+    return viewData.map((item) => ({
       x: item.latitude,
       y: item.day_length / 60,
       z: 1,
       name: item.location,
     }));
-  }, [astronomicalData, cityFilter, startDate, endDate]);
+  }, [viewData]);
 
   const COLORS = ["#0088FE", "#00C49F", "#FFBB28", "#FF8042", "#8884D8"];
 
@@ -307,9 +241,9 @@ const Visualize = () => {
             </div>
           </div>
 
-          {!isLoading && astronomicalData.length > 0 && (
+          {(hasFilters || rowCount > 0) && (
             <div className="mb-6">
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
                 <div>
                   <label className="block text-sm font-medium mb-1">
                     Filter by Location
@@ -394,12 +328,31 @@ const Visualize = () => {
                   </div>
                 </div>
 
+                <div>
+                  <label className="block text-sm font-medium mb-1">
+                    Source
+                  </label>
+                  <Select value={sourceFilter} onValueChange={setSourceFilter}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL_SOURCES}>All sources</SelectItem>
+                      {sourceOptions.map((source) => (
+                        <SelectItem key={source} value={source}>
+                          {source}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
                 <div className="flex justify-end">
                   <Button
                     variant="outline"
                     onClick={handleClearFilters}
                     className="flex items-center gap-1"
-                    disabled={!cityFilter && !startDate && !endDate}
+                    disabled={!hasFilters}
                   >
                     <FilterX className="h-4 w-4" />
                     Clear Filters
@@ -408,7 +361,7 @@ const Visualize = () => {
               </div>
 
               {/* Add filter summary */}
-              {(cityFilter || startDate || endDate) && (
+              {hasFilters && (
                 <div className="mt-2 text-sm text-muted-foreground">
                   Filtering:
                   {cityFilter && (
@@ -431,20 +384,92 @@ const Visualize = () => {
                       {format(endDate, "PPP")}
                     </span>
                   )}
+                  {sourceFilter !== ALL_SOURCES && (
+                    <span className="font-medium">
+                      {" "}
+                      from source "{sourceFilter}"
+                    </span>
+                  )}
                   {" — "}
-                  <span className="font-medium">
-                    {sortedData.length} results
-                  </span>
+                  <span className="font-medium">{rowCount} results</span>
                 </div>
               )}
+
+              <div className="mt-4 flex flex-wrap items-center gap-4">
+                <ToggleGroup
+                  type="single"
+                  variant="outline"
+                  value={dataMode}
+                  onValueChange={(value) =>
+                    value && setDataMode(value as "raw" | "reconciled")
+                  }
+                >
+                  <ToggleGroupItem value="raw">Raw rows</ToggleGroupItem>
+                  <ToggleGroupItem value="reconciled">
+                    Reconciled
+                  </ToggleGroupItem>
+                </ToggleGroup>
+
+                {dataMode === "reconciled" && (
+                  <>
+                    <Select
+                      value={reconcileStrategy}
+                      onValueChange={(value) =>
+                        setReconcileStrategy(value as ReconcileStrategy)
+                      }
+                    >
+                      <SelectTrigger className="w-44">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {RECONCILE_STRATEGIES.map((strategy) => (
+                          <SelectItem
+                            key={strategy.value}
+                            value={strategy.value}
+                          >
+                            {strategy.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+
+                    {reconcileStrategy === "prefer-source" && (
+                      <Select
+                        value={preferredSource || sources[0]}
+                        onValueChange={setPreferredSource}
+                      >
+                        <SelectTrigger className="w-48">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {sources.map((source) => (
+                            <SelectItem key={source} value={source}>
+                              {source}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+
+                    <span className="text-sm text-muted-foreground">
+                      One record per location and date in the charts; the totals
+                      and the table always use the raw rows
+                    </span>
+                  </>
+                )}
+              </div>
             </div>
           )}
 
-          {isLoading ? (
+          {isLoading && rowCount === 0 ? (
             <div className="flex justify-center items-center h-64">
               <p>Loading astronomical data...</p>
             </div>
-          ) : astronomicalData.length === 0 ? (
+          ) : rowCount === 0 && hasFilters ? (
+            <div className="flex justify-center items-center h-64">
+              <p>No rows match the current filters.</p>
+            </div>
+          ) : rowCount === 0 ? (
             <div className="flex justify-center items-center h-64">
               <div className="text-center">
                 <p className="mb-4">No astronomical data available yet.</p>
@@ -506,40 +531,11 @@ const Visualize = () => {
                 </div>
               )}
 
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
-                <Card>
-                  <CardHeader>
-                    <CardTitle>Day Length by Location (minutes)</CardTitle>
-                  </CardHeader>
-                  <CardContent className="h-80">
-                    <ResponsiveContainer width="100%" height="100%">
-                      <BarChart data={sortedData}>
-                        <CartesianGrid strokeDasharray="3 3" />
-                        <XAxis dataKey="location" />
-                        <YAxis
-                          label={{
-                            value: "Minutes",
-                            angle: -90,
-                            position: "insideLeft",
-                          }}
-                        />
-                        <Tooltip
-                          formatter={(value) => [
-                            `${value} minutes`,
-                            "Day Length",
-                          ]}
-                        />
-                        <Legend />
-                        <Bar
-                          dataKey="dayLength"
-                          fill="#8884d8"
-                          name="Day Length"
-                        />
-                      </BarChart>
-                    </ResponsiveContainer>
-                  </CardContent>
-                </Card>
+              <div className="mb-8">
+                <DayLengthChart data={viewData} />
+              </div>
 
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mb-8">
                 <Card>
                   <CardHeader>
                     <CardTitle>Data Sources Distribution</CardTitle>
@@ -577,9 +573,7 @@ const Visualize = () => {
                     )}
                   </CardContent>
                 </Card>
-              </div>
 
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
                 <Card>
                   <CardHeader>
                     <CardTitle>Latitude vs. Day Length</CardTitle>
@@ -665,87 +659,23 @@ const Visualize = () => {
                 </Card>
               </div>
 
-              <Card className="mb-8">
-                <CardHeader>
-                  <CardTitle>Collected Astronomical Data</CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <ScrollArea className="h-96">
-                    <Table>
-                      <TableHeader>
-                        <TableRow>
-                          <TableHead
-                            onClick={() => handleSort("location")}
-                            className="cursor-pointer"
-                          >
-                            <div className="flex items-center">
-                              Location
-                              <ArrowUpDown className="ml-1 h-4 w-4" />
-                            </div>
-                          </TableHead>
-                          <TableHead
-                            onClick={() => handleSort("date")}
-                            className="cursor-pointer"
-                          >
-                            <div className="flex items-center">
-                              Date
-                              <ArrowUpDown className="ml-1 h-4 w-4" />
-                            </div>
-                          </TableHead>
-                          <TableHead
-                            onClick={() => handleSort("sunrise")}
-                            className="cursor-pointer"
-                          >
-                            <div className="flex items-center">
-                              Sunrise
-                              <ArrowUpDown className="ml-1 h-4 w-4" />
-                            </div>
-                          </TableHead>
-                          <TableHead
-                            onClick={() => handleSort("sunset")}
-                            className="cursor-pointer"
-                          >
-                            <div className="flex items-center">
-                              Sunset
-                              <ArrowUpDown className="ml-1 h-4 w-4" />
-                            </div>
-                          </TableHead>
-                          <TableHead
-                            onClick={() => handleSort("day_length")}
-                            className="cursor-pointer"
-                          >
-                            <div className="flex items-center">
-                              Day Length (min)
-                              <ArrowUpDown className="ml-1 h-4 w-4" />
-                            </div>
-                          </TableHead>
-                          <TableHead
-                            onClick={() => handleSort("source")}
-                            className="cursor-pointer"
-                          >
-                            <div className="flex items-center">
-                              Source
-                              <ArrowUpDown className="ml-1 h-4 w-4" />
-                            </div>
-                          </TableHead>
-                        </TableRow>
-                      </TableHeader>
-                      <TableBody>
-                        {sortedData.map((item, index) => (
-                          <TableRow key={index}>
-                            <TableCell>{item.location}</TableCell>
-                            <TableCell>{item.date}</TableCell>
-                            <TableCell>{item.sunrise}</TableCell>
-                            <TableCell>{item.sunset}</TableCell>
-                            <TableCell>{item.dayLength}</TableCell>
-                            <TableCell>{item.source}</TableCell>
-                          </TableRow>
-                        ))}
-                      </TableBody>
-                    </Table>
-                  </ScrollArea>
-                </CardContent>
-              </Card>
+              <div className="mb-8">
+                <PeopleInSpaceCard data={chartPoints} />
+              </div>
+
+              <div className="mb-8">
+                <DaylightBandChart data={viewData} />
+              </div>
+
+              <div className="mb-8">
+                <SolarNoonChart data={viewData} />
+              </div>
+
+              <div className="mb-8">
+                <TwilightBandChart data={viewData} />
+              </div>
+
+              <AstronomicalDataTable filters={filters} />
             </>
           )}
         </div>
@@ -0,0 +1,218 @@
+import { createCollectionQueue, QueueProgress } from "./collectionQueue";
+import { AstronomicalDataResult, getProvider } from "./providers";
+import {
+  getCollectedSources,
+  saveAstronomicalData,
+  SaveMode,
+  SaveResult,
+} from "./saveAstronomicalData";
+import { getSpaceData } from "./spaceData";
+
+export interface CollectionLocation {
+  // Canonical name stored as the row's location
+  name: string;
+  latitude: number;
+  longitude: number;
+  country?: string | null;
+}
+
+export interface CollectionRequest {
+  locations: CollectionLocation[];
+  // "yyyy-MM-dd", collected for every location
+  dates: string[];
+  // Keys (see `collectionKey`) to leave out, e.g. already finished ones
+  exclude?: string[];
+  providerIds: string[];
+  saveMode: SaveMode;
+  // Provider requests running at the same time
+  concurrency?: number;
+}
+
+export interface CollectionSummary extends SaveResult {
+  // Keys of the location and dates for which no provider returned data
+  failedKeys: string[];
+  cancelled: boolean;
+}
+
+export interface CollectionHandlers {
+  // Queue groups are keyed by `collectionKey`
+  onProgress?: (progress: QueueProgress) => void;
+  // Called once per location and date after it was saved, or when no
+  // provider returned data for it. Entries whose rows were all collected
+  // already count as succeeded.
+  onEntrySettled?: (key: string, succeeded: boolean) => void;
+}
+
+/**
+ * Identifies a location of a collection, "<name>@<latitude>,<longitude>";
+ * different places can share a name.
+ */
+export const collectionLocationId = (location: CollectionLocation) =>
+  `${location.name}@${location.latitude},${location.longitude}`;
+
+/** Identifies one location and date of a collection. */
+export const collectionKey = (location: CollectionLocation, date: string) =>
+  `${collectionLocationId(location)}|${date}`;
+
+export const parseCollectionKey = (key: string) => {
+  const separator = key.lastIndexOf("|");
+  const locationId = key.slice(0, separator);
+  return {
+    locationId,
+    // The name, for display
+    location: locationId.slice(0, locationId.lastIndexOf("@")),
+    date: key.slice(separator + 1),
+  };
+};
+
+/**
+ * Queues one request per provider, location and date and saves each
+ * location and date as soon as all of its providers have settled. Providers
+ * are rate limited by their `requestIntervalMs` across all locations.
+ */
+export const createCollection = (
+  request: CollectionRequest,
+  handlers: CollectionHandlers = {}
+) => {
+  const { saveMode } = request;
+  const locations = Object.fromEntries(
+    request.locations.map((location) => [
+      collectionLocationId(location),
+      location,
+    ])
+  );
+  const exclude = new Set(request.exclude);
+  // Sources stored before the run, by location id and date, so saving needn't
+  // look them up again for every date
+  const collectedSources: Record<string, Record<string, string[]>> = {};
+  const summary: CollectionSummary = {
+    inserted: 0,
+    updated: 0,
+    skipped: 0,
+    failed: 0,
+    failedKeys: [],
+    cancelled: false,
+  };
+
+  const queue = createCollectionQueue<AstronomicalDataResult | null>({
+    concurrency: request.concurrency,
+    rateLimits: Object.fromEntries(
+      request.providerIds.map((id) => [
+        id,
+        getProvider(id)?.requestIntervalMs ?? 0,
+      ])
+    ),
+    onProgress: handlers.onProgress,
+    onGroupSettled: async (key, results) => {
+      results
+        .filter((result) => result.status === "failed")
+        .forEach((result) => {
+          console.error(
+            `Error fetching ${result.task.id} after ${result.attempts} attempt(s):`,
+            result.error
+          );
+          summary.failed++;
+        });
+
+      const apiResponses = results
+        .filter((result) => result.status === "succeeded" && result.value)
+        .map((result) => result.value);
+
+      if (apiResponses.length === 0) {
+        console.warn(`Failed to fetch data for ${key}`);
+        summary.failedKeys.push(key);
+        handlers.onEntrySettled?.(key, false);
+        return;
+      }
+
+      const { locationId, date } = parseCollectionKey(key);
+      const { name, latitude, longitude, country } = locations[locationId];
+      const spaceData = await getSpaceData(latitude, longitude, date);
+      const saved = await saveAstronomicalData(
+        apiResponses,
+        name,
+        latitude,
+        longitude,
+        date,
+        spaceData,
+        saveMode,
+        country,
+        collectedSources[locationId]
+          ? collectedSources[locationId][date] ?? []
+          : null
+      );
+
+      summary.inserted += saved.inserted;
+      summary.updated += saved.updated;
+      summary.skipped += saved.skipped;
+      summary.failed += saved.failed;
+      handlers.onEntrySettled?.(key, true);
+    },
+  });
+
+  // Adds the tasks of one location; in skip mode, sources that already
+  // have a row are left out
+  const queueLocation = async (location: CollectionLocation) => {
+    const dates = request.dates.filter(
+      (date) => !exclude.has(collectionKey(location, date))
+    );
+    if (dates.length === 0) return;
+
+    const sorted = [...dates].sort();
+    const { data, error } = await getCollectedSources(
+      location.name,
+      sorted[0],
+      sorted[sorted.length - 1]
+    );
+    if (error) {
+      console.error("Error looking up collected sources:", error);
+    }
+    const collected = data || {};
+    // Unknown when the lookup failed, so saving looks them up again
+    if (!error) collectedSources[collectionLocationId(location)] = collected;
+
+    dates.forEach((date) => {
+      const key = collectionKey(location, date);
+      let queued = false;
+
+      request.providerIds.forEach((id) => {
+        const provider = getProvider(id);
+        if (!provider) return;
+
+        if (saveMode === "skip" && collected[date]?.includes(id)) {
+          summary.skipped++;
+          return;
+        }
+
+        queued = true;
+        queue.add({
+          id: `${key}|${id}`,
+          group: key,
+          rateLimitKey: id,
+          run: (signal) =>
+            provider.fetch(location.latitude, location.longitude, date, signal),
+        });
+      });
+
+      if (!queued) {
+        handlers.onEntrySettled?.(key, true);
+      }
+    });
+  };
+
+  const start = async () => {
+    for (const location of request.locations) {
+      await queueLocation(location);
+    }
+
+    await queue.start();
+    return summary;
+  };
+
+  const cancel = () => {
+    summary.cancelled = true;
+    queue.cancel();
+  };
+
+  return { start, cancel };
+};
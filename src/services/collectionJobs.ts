@@ -0,0 +1,217 @@
+import { eachDayOfInterval, format, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Json, Tables } from "@/integrations/supabase/types";
+import {
+  CollectionHandlers,
+  CollectionLocation,
+  collectionKey,
+  collectionLocationId,
+  createCollection,
+  parseCollectionKey,
+} from "./collectAstronomicalData";
+import { SaveMode } from "./saveAstronomicalData";
+
+export type CollectionJob = Tables<"collection_jobs">;
+
+export type CollectionJobStatus =
+  | "running"
+  | "paused"
+  | "completed"
+  | "cancelled";
+
+export interface NewCollectionJob {
+  locations: CollectionLocation[];
+  // Inclusive "yyyy-MM-dd" range
+  dateFrom: string;
+  dateTo: string;
+  providerIds: string[];
+  saveMode: SaveMode;
+}
+
+// Number of past runs listed in the jobs panel
+const JOB_LIST_LIMIT = 20;
+
+// Finished entries are written to the job at most this often, together
+const PROGRESS_WRITE_INTERVAL_MS = 2000;
+
+export const getJobLocations = (job: CollectionJob) =>
+  job.locations as unknown as CollectionLocation[];
+
+// Number of location names spelled out before the rest are summarized
+const LOCATIONS_SHOWN = 3;
+
+/** "Paris, Oslo, Rome and 4 more" */
+export const describeLocations = (job: CollectionJob) => {
+  const names = getJobLocations(job).map((location) => location.name);
+  return names.length > LOCATIONS_SHOWN
+    ? `${names.slice(0, LOCATIONS_SHOWN).join(", ")} and ${
+        names.length - LOCATIONS_SHOWN
+      } more`
+    : names.join(", ");
+};
+
+// Jobs recorded before keys had coordinates have "<name>|<yyyy-MM-dd>"
+// keys, which are read as the job's first location with that name
+const upgradeKeys = (job: CollectionJob, keys: string[]) => {
+  const locations = getJobLocations(job);
+  const ids = new Set(locations.map(collectionLocationId));
+  return keys.map((key) => {
+    const { locationId, date } = parseCollectionKey(key);
+    if (ids.has(locationId)) return key;
+    const location = locations.find(({ name }) => name === locationId);
+    return location ? collectionKey(location, date) : key;
+  });
+};
+
+/** Every date the job covers, as "yyyy-MM-dd". */
+export const getJobDates = (job: CollectionJob) =>
+  eachDayOfInterval({
+    start: parseISO(job.date_from),
+    end: parseISO(job.date_to),
+  }).map((date) => format(date, "yyyy-MM-dd"));
+
+export const createCollectionJob = async (job: NewCollectionJob) => {
+  const { data, error } = await supabase
+    .from("collection_jobs")
+    .insert([
+      {
+        locations: job.locations as unknown as Json,
+        date_from: job.dateFrom,
+        date_to: job.dateTo,
+        provider_ids: job.providerIds,
+        save_mode: job.saveMode,
+        status: "running",
+      },
+    ])
+    .select()
+    .single();
+
+  return { data, error };
+};
+
+export const getCollectionJobs = async () => {
+  const { data, error } = await supabase
+    .from("collection_jobs")
+    .select("*")
+    .order("created_at", { ascending: false })
+    .limit(JOB_LIST_LIMIT);
+
+  return { data, error };
+};
+
+export const updateCollectionJob = async (
+  id: string,
+  changes: Partial<Omit<CollectionJob, "id" | "created_at">>
+) => {
+  const { data, error } = await supabase
+    .from("collection_jobs")
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq("id", id)
+    .select()
+    .single();
+
+  return { data, error };
+};
+
+/**
+ * Collects the locations and dates of a job that haven't completed yet,
+ * including the ones that failed on an earlier run, and records every
+ * finished one on the job so it can be resumed after a pause or page reload.
+ */
+export const runCollectionJob = (
+  job: CollectionJob,
+  options: {
+    concurrency?: number;
+    onProgress?: CollectionHandlers["onProgress"];
+    onUpdate?: (job: CollectionJob) => void;
+  } = {}
+) => {
+  const completed = new Set(upgradeKeys(job, job.completed_keys));
+  const failed = new Set(upgradeKeys(job, job.failed_keys));
+  let stopStatus: CollectionJobStatus | null = null;
+  let current = job;
+  let progressChanged = false;
+  let progressTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // Writes are chained so an older snapshot never overwrites a newer one.
+  // Entries finished in between are recorded by the next write.
+  let saving = Promise.resolve();
+  const persist = (changes: Partial<CollectionJob> = {}) => {
+    clearTimeout(progressTimer);
+    progressTimer = null;
+    if (progressChanged) {
+      progressChanged = false;
+      changes = {
+        completed_keys: Array.from(completed).sort(),
+        failed_keys: Array.from(failed).sort(),
+        ...changes,
+      };
+    }
+
+    current = { ...current, ...changes };
+    options.onUpdate?.(current);
+    saving = saving.then(async () => {
+      const { error } = await updateCollectionJob(job.id, changes);
+      if (error) {
+        console.error(`Error updating collection job ${job.id}:`, error);
+      }
+    });
+    return saving;
+  };
+
+  const collection = createCollection(
+    {
+      locations: getJobLocations(job),
+      dates: getJobDates(job),
+      exclude: Array.from(completed),
+      providerIds: job.provider_ids,
+      saveMode: job.save_mode as SaveMode,
+      concurrency: options.concurrency,
+    },
+    {
+      onProgress: options.onProgress,
+      onEntrySettled: (key, succeeded) => {
+        if (succeeded) {
+          completed.add(key);
+          failed.delete(key);
+        } else {
+          failed.add(key);
+        }
+        progressChanged = true;
+        if (!progressTimer) {
+          progressTimer = setTimeout(persist, PROGRESS_WRITE_INTERVAL_MS);
+        }
+      },
+    }
+  );
+
+  const start = async () => {
+    await persist({ status: "running" });
+
+    const summary = await collection.start();
+
+    await persist({
+      status: stopStatus ?? "completed",
+      inserted: job.inserted + summary.inserted,
+      updated: job.updated + summary.updated,
+      skipped: job.skipped + summary.skipped,
+      failed: job.failed + summary.failed,
+    });
+
+    return { job: current, summary };
+  };
+
+  // Entries that were in flight are not recorded and run again on resume
+  const stop = (status: CollectionJobStatus) => {
+    stopStatus = status;
+    collection.cancel();
+  };
+
+  return {
+    start,
+    pause: () => stop("paused"),
+    cancel: () => stop("cancelled"),
+  };
+};
+
+export type CollectionJobRun = ReturnType<typeof runCollectionJob>;
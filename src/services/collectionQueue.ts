@@ -0,0 +1,238 @@
+// Runs many small requests (one per provider and date during collection)
+// with bounded concurrency, a minimum interval between requests that share
+// a rate limit key, retries with exponential backoff and a timeout per
+// attempt.
+
+export interface QueueTask<T> {
+  id: string;
+  // Tasks are counted and reported per group, e.g. one date
+  group: string;
+  // Tasks with the same key share its rate limit, e.g. one provider
+  rateLimitKey?: string;
+  // Receives a signal that is aborted when the attempt times out or the
+  // queue is cancelled
+  run: (signal: AbortSignal) => Promise<T>;
+}
+
+export type QueueTaskStatus =
+  | "pending"
+  | "running"
+  | "retrying"
+  | "succeeded"
+  | "failed";
+
+export interface QueueTaskResult<T> {
+  task: QueueTask<T>;
+  status: "succeeded" | "failed";
+  value?: T;
+  error?: unknown;
+  attempts: number;
+}
+
+export type QueueGroupCounts = Record<QueueTaskStatus, number>;
+
+export interface QueueProgress {
+  total: number;
+  settled: number;
+  groups: Record<string, QueueGroupCounts>;
+}
+
+export interface CollectionQueueOptions<T> {
+  // Attempts running at the same time
+  concurrency?: number;
+  // Minimum milliseconds between the start of two attempts, per key
+  rateLimits?: Record<string, number>;
+  // Retries after the first failed attempt
+  retries?: number;
+  // Delay before the first retry, doubled for every further one
+  backoffMs?: number;
+  timeoutMs?: number;
+  onProgress?: (progress: QueueProgress) => void;
+  // Called once every task of a group has settled. The queue only finishes
+  // after all these calls have resolved.
+  onGroupSettled?: (
+    group: string,
+    results: QueueTaskResult<T>[]
+  ) => Promise<void> | void;
+}
+
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_RETRIES = 3;
+const DEFAULT_BACKOFF_MS = 1000;
+const DEFAULT_TIMEOUT_MS = 15000;
+
+// Resolves early, without an error, when the signal is aborted
+const sleep = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    if (ms <= 0 || signal.aborted) {
+      resolve();
+      return;
+    }
+    const done = () => {
+      clearTimeout(timer);
+      signal.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal.addEventListener("abort", done);
+  });
+
+const emptyCounts = (): QueueGroupCounts => ({
+  pending: 0,
+  running: 0,
+  retrying: 0,
+  succeeded: 0,
+  failed: 0,
+});
+
+export const createCollectionQueue = <T>(
+  options: CollectionQueueOptions<T> = {}
+) => {
+  const concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY);
+  const retries = options.retries ?? DEFAULT_RETRIES;
+  const backoffMs = options.backoffMs ?? DEFAULT_BACKOFF_MS;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+  const tasks: QueueTask<T>[] = [];
+  const statuses = new Map<string, QueueTaskStatus>();
+  const groupTasks: Record<string, QueueTask<T>[]> = {};
+  const groupCounts: Record<string, QueueGroupCounts> = {};
+  const results = new Map<string, QueueTaskResult<T>>();
+  // Earliest time the next attempt for each rate limit key may start
+  const nextStart: Record<string, number> = {};
+  const groupCallbacks: Promise<void>[] = [];
+  const controller = new AbortController();
+
+  const getProgress = (): QueueProgress => ({
+    total: tasks.length,
+    settled: results.size,
+    groups: Object.fromEntries(
+      Object.entries(groupCounts).map(([group, counts]) => [
+        group,
+        { ...counts },
+      ])
+    ),
+  });
+
+  const setStatus = (task: QueueTask<T>, status: QueueTaskStatus) => {
+    groupCounts[task.group][statuses.get(task.id)]--;
+    groupCounts[task.group][status]++;
+    statuses.set(task.id, status);
+    options.onProgress?.(getProgress());
+  };
+
+  const settle = (result: QueueTaskResult<T>) => {
+    results.set(result.task.id, result);
+    setStatus(result.task, result.status);
+
+    const group = groupTasks[result.task.group];
+    if (options.onGroupSettled && group.every((task) => results.has(task.id))) {
+      groupCallbacks.push(
+        Promise.resolve()
+          .then(() =>
+            options.onGroupSettled(
+              result.task.group,
+              group.map((task) => results.get(task.id))
+            )
+          )
+          .catch((error) => {
+            console.error(`Error handling ${result.task.group}:`, error);
+          })
+      );
+    }
+  };
+
+  // Reserves the next start slot for the key, then waits for it
+  const waitForRateLimit = (key: string | undefined) => {
+    const interval = key ? options.rateLimits?.[key] ?? 0 : 0;
+    if (!interval) return Promise.resolve();
+
+    const now = Date.now();
+    const startAt = Math.max(now, nextStart[key] ?? 0);
+    nextStart[key] = startAt + interval;
+    return sleep(startAt - now, controller.signal);
+  };
+
+  // Rejects on timeout even if the task ignores its signal, so a hanging
+  // request only ever holds one slot for `timeoutMs`
+  const attempt = (task: QueueTask<T>) => {
+    const attemptController = new AbortController();
+    const abort = () => attemptController.abort();
+    controller.signal.addEventListener("abort", abort);
+
+    let timer: ReturnType<typeof setTimeout>;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        abort();
+        reject(new Error(`Request timed out after ${timeoutMs} ms`));
+      }, timeoutMs);
+    });
+
+    return Promise.race([task.run(attemptController.signal), timeout]).finally(
+      () => {
+        clearTimeout(timer);
+        controller.signal.removeEventListener("abort", abort);
+      }
+    );
+  };
+
+  const runTask = async (task: QueueTask<T>) => {
+    for (let attempts = 1; ; attempts++) {
+      await waitForRateLimit(task.rateLimitKey);
+      if (controller.signal.aborted) return;
+
+      setStatus(task, "running");
+      try {
+        const value = await attempt(task);
+        settle({ task, status: "succeeded", value, attempts });
+        return;
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        if (attempts > retries) {
+          settle({ task, status: "failed", error, attempts });
+          return;
+        }
+        setStatus(task, "retrying");
+        await sleep(backoffMs * 2 ** (attempts - 1), controller.signal);
+      }
+    }
+  };
+
+  const add = (task: QueueTask<T>) => {
+    if (!groupTasks[task.group]) {
+      groupTasks[task.group] = [];
+      groupCounts[task.group] = emptyCounts();
+    }
+    tasks.push(task);
+    groupTasks[task.group].push(task);
+    groupCounts[task.group].pending++;
+    statuses.set(task.id, "pending");
+  };
+
+  /** Runs every added task and resolves with their results. */
+  const start = async () => {
+    let next = 0;
+    const worker = async () => {
+      while (next < tasks.length && !controller.signal.aborted) {
+        await runTask(tasks[next++]);
+      }
+    };
+
+    options.onProgress?.(getProgress());
+    await Promise.all(
+      Array.from({ length: Math.min(concurrency, tasks.length) }, worker)
+    );
+    await Promise.all(groupCallbacks);
+
+    return tasks
+      .filter((task) => results.has(task.id))
+      .map((task) => results.get(task.id));
+  };
+
+  /** Aborts running attempts; tasks that haven't settled stay unsettled. */
+  const cancel = () => controller.abort();
+
+  return { add, start, cancel, getProgress };
+};
+
+export type CollectionQueue<T> = ReturnType<typeof createCollectionQueue<T>>;
@@ -1,90 +1,267 @@
 import { toast } from "@/components/ui/use-toast";
+import { formatCoordinateLabel } from "@/lib/coordinates";
+import {
+  GazetteerCity,
+  GazetteerMatch,
+  loadGazetteer,
+  nearestGazetteerCity,
+  searchGazetteer,
+} from "@/lib/gazetteer";
+import { cachePlaces, getCachedPlaces } from "./placeCache";
 
-//Fallback data for common cities
-const cityCoordinates: Record<string, { lat: number; lng: number }> = {
-  "new york": { lat: 40.7128, lng: -74.006 },
-  "los angeles": { lat: 34.0522, lng: -118.2437 },
-  chicago: { lat: 41.8781, lng: -87.6298 },
-  houston: { lat: 29.7604, lng: -95.3698 },
-  phoenix: { lat: 33.4484, lng: -112.074 },
-  philadelphia: { lat: 39.9526, lng: -75.1652 },
-  "san antonio": { lat: 29.4241, lng: -98.4936 },
-  "san diego": { lat: 32.7157, lng: -117.1611 },
-  dallas: { lat: 32.7767, lng: -96.797 },
-  "san francisco": { lat: 37.7749, lng: -122.4194 },
-  seattle: { lat: 47.6062, lng: -122.3321 },
-  boston: { lat: 42.3601, lng: -71.0589 },
-  miami: { lat: 25.7617, lng: -80.1918 },
-  london: { lat: 51.5074, lng: -0.1278 },
-  paris: { lat: 48.8566, lng: 2.3522 },
-  tokyo: { lat: 35.6762, lng: 139.6503 },
-  sydney: { lat: -33.8688, lng: 151.2093 },
-  "rio de janeiro": { lat: -22.9068, lng: -43.1729 },
-  cairo: { lat: 30.0444, lng: 31.2357 },
-  moscow: { lat: 55.7558, lng: 37.6173 },
-};
+export interface GeocodeCandidate {
+  // Stored as the row's location, e.g. "Paris, Île-de-France, France"
+  label: string;
+  name: string;
+  // Full description from the geocoder, shown when picking a place
+  displayName: string;
+  country: string | null;
+  // Kind of place, e.g. "city", "town" or "administrative"
+  type: string;
+  latitude: number;
+  longitude: number;
+  // Geocoder's ranking, higher is more prominent
+  importance?: number;
+}
 
-export const getCoordinates = async (
-  cityName: string
-): Promise<{ lat: number; lng: number } | null> => {
-  const normalized = cityName.toLowerCase().trim();
+interface NominatimReverseResult extends Partial<NominatimResult> {
+  error?: string;
+}
+
+interface NominatimResult {
+  lat: string;
+  lon: string;
+  name: string;
+  display_name: string;
+  type: string;
+  importance?: number;
+  addresstype?: string;
+  address?: {
+    state?: string;
+    country?: string;
+  };
+}
 
-  if (cityCoordinates[normalized]) {
-    return cityCoordinates[normalized];
+const MAX_CANDIDATES = 5;
+// Offline, points further than this from any bundled city keep a
+// coordinate label
+const REVERSE_MAX_KM = 25;
+// Nominatim's usage policy allows one request per second
+const NOMINATIM_INTERVAL_MS = 1000;
+
+let nextRequestAt = 0;
+
+const waitForNominatim = async () => {
+  const now = Date.now();
+  const startAt = Math.max(now, nextRequestAt);
+  nextRequestAt = startAt + NOMINATIM_INTERVAL_MS;
+  if (startAt > now) {
+    await new Promise((resolve) => setTimeout(resolve, startAt - now));
   }
+};
+
+// Name, region and country without repeats ("Singapore, Singapore")
+const canonicalLabel = (...parts: (string | undefined | null)[]) =>
+  parts
+    .filter((part, index) => part && parts.indexOf(part) === index)
+    .join(", ");
+
+// Labelled like the geocoding service's places, plus the coordinates for
+// the few cities sharing their name with another in the same region
+const gazetteerLabel = (city: GazetteerCity) => {
+  const label = canonicalLabel(city.name, city.region, city.country);
+  return city.namesake
+    ? `${label} (${formatCoordinateLabel(city.latitude, city.longitude)})`
+    : label;
+};
+
+const gazetteerCandidate = (match: GazetteerMatch): GeocodeCandidate => ({
+  label: gazetteerLabel(match),
+  name: match.name,
+  displayName: gazetteerLabel(match),
+  country: match.country,
+  type: "city",
+  latitude: match.latitude,
+  longitude: match.longitude,
+  importance: match.score,
+});
+
+/** Ranked matches from the bundled world-cities gazetteer; no network. */
+export const searchOffline = async (
+  query: string,
+  limit = MAX_CANDIDATES
+): Promise<GeocodeCandidate[]> =>
+  searchGazetteer(await loadGazetteer(), query, limit).map(gazetteerCandidate);
+
+const isOffline = () => typeof navigator !== "undefined" && !navigator.onLine;
+
+const toCandidate = (result: NominatimResult): GeocodeCandidate => {
+  const name = result.name || result.display_name.split(",")[0].trim();
+  const country = result.address?.country ?? null;
+  return {
+    label: canonicalLabel(name, result.address?.state, country),
+    name,
+    displayName: result.display_name,
+    country,
+    type: result.addresstype || result.type,
+    latitude: parseFloat(result.lat),
+    longitude: parseFloat(result.lon),
+    importance: result.importance,
+  };
+};
+
+/**
+ * Places matching the query, best match first. Saved places are used when
+ * the query was looked up before; otherwise the geocoding service is asked
+ * and its answer saved. Offline, or when the service can't be reached or
+ * finds nothing, the bundled gazetteer is searched instead. Only rejects
+ * when aborted.
+ */
+export const searchLocations = async (
+  query: string,
+  limit = MAX_CANDIDATES,
+  signal?: AbortSignal
+): Promise<GeocodeCandidate[]> => {
+  const cached = await getCachedPlaces(query);
+  if (cached.length > 0) return cached.slice(0, limit);
+
+  if (isOffline()) return searchOffline(query, limit);
 
   try {
+    await waitForNominatim();
+    signal?.throwIfAborted();
+
     //Nominatim API (OpenStreetMap)
     const response = await fetch(
-      `https://nominatim.openstreetmap.org/search?format=json&q=${encodeURIComponent(
-        cityName
-      )}&limit=1`
+      `https://nominatim.openstreetmap.org/search?format=jsonv2&addressdetails=1&q=${encodeURIComponent(
+        query
+      )}&limit=${limit}`,
+      { signal }
     );
 
     if (!response.ok) {
       throw new Error(`Geocoding API error: ${response.status}`);
     }
 
-    const data = await response.json();
+    const data = (await response.json()) as NominatimResult[];
+    const candidates = data.map(toCandidate);
+    if (candidates.length > 0) {
+      await cachePlaces(query, candidates);
+      return candidates;
+    }
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.error("Geocoding error:", error);
+  }
 
-    if (data && data.length > 0) {
-      const coords = {
-        lat: parseFloat(data[0].lat),
-        lng: parseFloat(data[0].lon),
-      };
+  return searchOffline(query, limit);
+};
 
-      return coords;
-    }
+/** A place that only has coordinates, labelled with them. */
+export const coordinateCandidate = (
+  latitude: number,
+  longitude: number,
+  name = formatCoordinateLabel(latitude, longitude)
+): GeocodeCandidate => ({
+  label: name,
+  name,
+  displayName: `${name} (${formatCoordinateLabel(latitude, longitude)})`,
+  country: null,
+  type: "coordinates",
+  latitude,
+  longitude,
+});
 
-    for (const [city, coords] of Object.entries(cityCoordinates)) {
-      if (normalized.includes(city) || city.includes(normalized)) {
-        return coords;
-      }
-    }
+/**
+ * The candidates' labels, with the coordinates added where different
+ * places share one:
+ * "Springfield, United States (39.8017° N, 89.6436° W)".
+ */
+export const distinctLabels = (candidates: GeocodeCandidate[]) => {
+  const positions: Record<string, Set<string>> = {};
+  candidates.forEach((candidate) => {
+    if (!positions[candidate.label]) positions[candidate.label] = new Set();
+    positions[candidate.label].add(
+      formatCoordinateLabel(candidate.latitude, candidate.longitude)
+    );
+  });
 
-    toast({
-      title: "City Not Found",
-      description: `Could not find coordinates for "${cityName}"`,
-      variant: "destructive",
-    });
+  return candidates.map((candidate) =>
+    positions[candidate.label].size > 1
+      ? `${candidate.label} (${formatCoordinateLabel(
+          candidate.latitude,
+          candidate.longitude
+        )})`
+      : candidate.label
+  );
+};
 
-    return null;
-  } catch (error) {
-    console.error("Geocoding error:", error);
+/**
+ * The place at the given coordinates, keeping the coordinates themselves.
+ * Uses the geocoding service, or the nearest bundled city when offline or
+ * the service can't be reached. Null when nothing is close. Only a
+ * description: sites in the same city get the same place.
+ */
+export const reverseGeocode = async (
+  latitude: number,
+  longitude: number,
+  signal?: AbortSignal
+): Promise<GeocodeCandidate | null> => {
+  if (!isOffline()) {
+    try {
+      await waitForNominatim();
+      signal?.throwIfAborted();
 
-    for (const [city, coords] of Object.entries(cityCoordinates)) {
-      if (normalized.includes(city) || city.includes(normalized)) {
-        return coords;
+      // zoom=10 names the city rather than the street
+      const response = await fetch(
+        `https://nominatim.openstreetmap.org/reverse?format=jsonv2&addressdetails=1&zoom=10&lat=${latitude}&lon=${longitude}`,
+        { signal }
+      );
+      if (!response.ok) {
+        throw new Error(`Geocoding API error: ${response.status}`);
       }
+
+      const data = (await response.json()) as NominatimReverseResult;
+      if (data.error || !data.display_name) return null;
+      return {
+        ...toCandidate(data as NominatimResult),
+        latitude,
+        longitude,
+      };
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.error("Reverse geocoding error:", error);
     }
+  }
+
+  const city = nearestGazetteerCity(
+    await loadGazetteer(),
+    { latitude, longitude },
+    REVERSE_MAX_KM
+  );
+  return city
+    ? {
+        ...gazetteerCandidate({ ...city, score: 0 }),
+        displayName: `Near ${gazetteerLabel(city)}`,
+        latitude,
+        longitude,
+      }
+    : null;
+};
+
+/** The best match for a city name, or null when nothing was found. */
+export const getCoordinates = async (
+  cityName: string
+): Promise<GeocodeCandidate | null> => {
+  const [candidate] = await searchLocations(cityName, 1);
 
+  if (!candidate) {
     toast({
-      title: "Geocoding Error",
-      description:
-        "Could not connect to geocoding service. Using fallback data.",
+      title: "City Not Found",
+      description: `Could not find coordinates for "${cityName}"`,
       variant: "destructive",
     });
-
-    return null;
   }
+
+  return candidate ?? null;
 };
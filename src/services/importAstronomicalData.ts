@@ -0,0 +1,84 @@
+import { supabase } from "@/integrations/supabase/client";
+import { ImportRow } from "@/lib/importData";
+import { getCollectedSources, normalizeLocation } from "./saveAstronomicalData";
+
+export interface ImportResult {
+  inserted: number;
+  updated: number;
+  failed: number;
+}
+
+export interface ImportOptions {
+  // Only count what would be inserted and updated, writing nothing
+  dryRun: boolean;
+  onProgress?: (done: number, total: number) => void;
+}
+
+// Rows per upsert request
+const IMPORT_BATCH_SIZE = 500;
+
+// Whether each row replaces one already stored for its location, date and
+// source, looked up once per location over the dates it spans
+const findExistingRows = async (rows: ImportRow[]) => {
+  const byLocation: Record<string, ImportRow[]> = {};
+  rows.forEach((row) => {
+    const key = normalizeLocation(row.location);
+    if (!byLocation[key]) byLocation[key] = [];
+    byLocation[key].push(row);
+  });
+
+  const existing = new Set<ImportRow>();
+  for (const locationRows of Object.values(byLocation)) {
+    const dates = locationRows.map((row) => row.date).sort();
+    const { data, error } = await getCollectedSources(
+      locationRows[0].location,
+      dates[0],
+      dates[dates.length - 1]
+    );
+    if (error) return { data: null, error };
+
+    locationRows.forEach((row) => {
+      if (data[row.date]?.includes(row.source)) existing.add(row);
+    });
+  }
+
+  return { data: existing, error: null };
+};
+
+/** Upserts validated import rows in batches, or counts them in a dry run. */
+export const importAstronomicalData = async (
+  rows: ImportRow[],
+  { dryRun, onProgress }: ImportOptions
+) => {
+  const { data: existing, error } = await findExistingRows(rows);
+  if (error) return { data: null, error };
+
+  const result: ImportResult = { inserted: 0, updated: 0, failed: 0 };
+  const count = (batch: ImportRow[]) => {
+    const updated = batch.filter((row) => existing.has(row)).length;
+    result.updated += updated;
+    result.inserted += batch.length - updated;
+  };
+
+  if (dryRun) {
+    count(rows);
+    return { data: result, error: null };
+  }
+
+  for (let from = 0; from < rows.length; from += IMPORT_BATCH_SIZE) {
+    const batch = rows.slice(from, from + IMPORT_BATCH_SIZE);
+    const { error: upsertError } = await supabase
+      .from("astronomical_data")
+      .upsert(batch, { onConflict: "location_key,date,source" });
+
+    if (upsertError) {
+      console.error("Error importing rows:", upsertError);
+      result.failed += batch.length;
+    } else {
+      count(batch);
+    }
+    onProgress?.(Math.min(from + batch.length, rows.length), rows.length);
+  }
+
+  return { data: result, error: null };
+};
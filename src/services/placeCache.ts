@@ -0,0 +1,355 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables, TablesInsert } from "@/integrations/supabase/types";
+import { formatCoordinateLabel } from "@/lib/coordinates";
+import type { GeocodeCandidate } from "./geocoding";
+
+export type Place = Tables<"locations">;
+
+export type PlaceInput = Omit<
+  TablesInsert<"locations">,
+  "id" | "created_at" | "updated_at"
+>;
+
+// Copy of a place kept in the browser, so lookups keep working offline.
+// Pending places couldn't be written to the locations table yet.
+interface LocalPlace extends GeocodeCandidate {
+  aliases: string[];
+  pending: boolean;
+}
+
+const DB_NAME = "astronomical-data-explorer";
+const STORE_NAME = "places";
+
+/** The form of a query stored in a place's aliases. */
+export const normalizeQuery = (query: string) =>
+  query.trim().toLowerCase().replace(/\s+/g, " ");
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: "label" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+) => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(
+        db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)
+      );
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+const getLocalPlaces = () =>
+  withStore<LocalPlace[]>("readonly", (store) => store.getAll());
+
+const putLocalPlace = (place: LocalPlace) =>
+  withStore("readwrite", (store) => store.put(place));
+
+const isOnline = () => typeof navigator === "undefined" || navigator.onLine;
+
+const byImportance = (a: { importance?: number }, b: { importance?: number }) =>
+  (b.importance ?? 0) - (a.importance ?? 0);
+
+const toCandidate = (place: Place): GeocodeCandidate => ({
+  label: place.label,
+  name: place.name,
+  displayName: place.display_name,
+  country: place.country,
+  type: place.type,
+  latitude: place.latitude,
+  longitude: place.longitude,
+  importance: place.importance,
+});
+
+const toLocalPlace = (place: Place): LocalPlace => ({
+  ...toCandidate(place),
+  aliases: place.aliases,
+  pending: false,
+});
+
+const mergeAliases = (...lists: string[][]) => [...new Set(lists.flat())];
+
+interface PlacePosition {
+  label: string;
+  latitude: number;
+  longitude: number;
+  edited?: boolean;
+}
+
+const samePosition = (a: PlacePosition, b: PlacePosition) =>
+  a.latitude.toFixed(4) === b.latitude.toFixed(4) &&
+  a.longitude.toFixed(4) === b.longitude.toFixed(4);
+
+// Both stores are keyed by label, so a place is saved under its label and
+// coordinates when a place elsewhere already has the label. A place fixed
+// by hand keeps its label for whatever the geocoder calls by that name.
+const withDistinctLabels = (places: LocalPlace[], saved: PlacePosition[]) => {
+  const taken = [...saved];
+  return places.map((place) => {
+    const clashes = taken.some(
+      (other) =>
+        other.label === place.label &&
+        !other.edited &&
+        !samePosition(other, place)
+    );
+    const labelled = clashes
+      ? {
+          ...place,
+          label: `${place.label} (${formatCoordinateLabel(
+            place.latitude,
+            place.longitude
+          )})`,
+        }
+      : place;
+    taken.push(labelled);
+    return labelled;
+  });
+};
+
+// One place per label and position; the first is kept, with the aliases of
+// all of them
+const mergePlaces = (places: LocalPlace[]) =>
+  places.reduce((merged, place) => {
+    const index = merged.findIndex(
+      (other) => other.label === place.label && samePosition(other, place)
+    );
+    if (index < 0) return [...merged, place];
+
+    const current = merged[index];
+    merged[index] = {
+      ...current,
+      importance: Math.max(current.importance ?? 0, place.importance ?? 0),
+      aliases: mergeAliases(current.aliases, place.aliases),
+      pending: current.pending || place.pending,
+    };
+    return merged;
+  }, [] as LocalPlace[]);
+
+// Places fixed by hand keep their coordinates; the geocoder only adds
+// aliases. Returns the places as saved, with their labels made distinct.
+const upsertPlaces = async (unsaved: LocalPlace[]) => {
+  const { data: existing, error } = await supabase
+    .from("locations")
+    .select("*")
+    .in("label", [...new Set(unsaved.map((place) => place.label))]);
+  if (error) return { places: null, error };
+
+  // An upsert can't touch the same row twice
+  const places = mergePlaces(withDistinctLabels(unsaved, existing));
+  // Labels with coordinates added may already be saved too
+  const { data: relabelled, error: relabelledError } = await supabase
+    .from("locations")
+    .select("*")
+    .in(
+      "label",
+      places
+        .filter((place) => !existing.some((row) => row.label === place.label))
+        .map((place) => place.label)
+    );
+  if (relabelledError) return { places: null, error: relabelledError };
+
+  const rows = places.map((place): PlaceInput => {
+    const current = [...existing, ...relabelled].find(
+      (row) => row.label === place.label
+    );
+    const aliases = mergeAliases(current?.aliases ?? [], place.aliases);
+    if (current?.edited) {
+      const { id, created_at, updated_at, ...fields } = current;
+      return { ...fields, aliases };
+    }
+    return {
+      label: place.label,
+      name: place.name,
+      display_name: place.displayName,
+      country: place.country,
+      type: place.type,
+      latitude: place.latitude,
+      longitude: place.longitude,
+      importance: Math.max(current?.importance ?? 0, place.importance ?? 0),
+      aliases,
+    };
+  });
+
+  const { error: upsertError } = await supabase.from("locations").upsert(
+    rows.map((row) => ({ ...row, updated_at: new Date().toISOString() })),
+    { onConflict: "label" }
+  );
+  return { places: upsertError ? null : places, error: upsertError };
+};
+
+/**
+ * Saved places matching the query, most important first. Reads the
+ * locations table, or the copy in the browser when offline or the table
+ * can't be reached. Never rejects; a failed lookup finds nothing.
+ */
+export const getCachedPlaces = async (
+  query: string
+): Promise<GeocodeCandidate[]> => {
+  const alias = normalizeQuery(query);
+
+  if (isOnline()) {
+    const { data, error } = await supabase
+      .from("locations")
+      .select("*")
+      .contains("aliases", [alias])
+      .order("importance", { ascending: false });
+
+    if (!error) return data.map(toCandidate);
+    console.error("Error reading saved places:", error);
+  }
+
+  try {
+    return (await getLocalPlaces())
+      .filter((place) => place.aliases.includes(alias))
+      .sort(byImportance)
+      .map(({ aliases, pending, ...candidate }) => candidate);
+  } catch (error) {
+    console.error("Error reading offline places:", error);
+    return [];
+  }
+};
+
+/**
+ * Remembers the geocoder's answer to a query. Places are always kept in the
+ * browser too, and marked pending when the locations table can't be
+ * written, until the next sync.
+ */
+export const cachePlaces = async (
+  query: string,
+  candidates: GeocodeCandidate[]
+) => {
+  if (candidates.length === 0) return;
+  const alias = normalizeQuery(query);
+
+  let local: LocalPlace[] = [];
+  try {
+    local = await getLocalPlaces();
+  } catch (error) {
+    console.error("Error reading offline places:", error);
+  }
+
+  const found = candidates.map((candidate) => ({
+    ...candidate,
+    aliases: [alias],
+    pending: false,
+  }));
+
+  // The table decides the labels when it can be written, otherwise the
+  // browser's copy does until the next sync
+  let saved: LocalPlace[] | null = null;
+  if (isOnline()) {
+    const { places, error } = await upsertPlaces(found);
+    if (error) console.error("Error saving places:", error);
+    saved = places;
+  }
+
+  const places = (saved ?? mergePlaces(withDistinctLabels(found, local))).map(
+    (place) => {
+      const current = local.find(
+        (other) => other.label === place.label && samePosition(other, place)
+      );
+      return {
+        ...place,
+        aliases: mergeAliases(current?.aliases ?? [], place.aliases),
+        pending: Boolean(current?.pending) || !saved,
+      };
+    }
+  );
+
+  try {
+    for (const place of places) {
+      await putLocalPlace(place);
+    }
+  } catch (error) {
+    console.error("Error saving offline places:", error);
+  }
+};
+
+/** Writes the places saved while offline to the locations table. */
+export const syncPendingPlaces = async () => {
+  const pending = (await getLocalPlaces()).filter((place) => place.pending);
+  if (pending.length === 0) return;
+
+  const { error } = await upsertPlaces(pending);
+  if (error) {
+    console.error("Error syncing offline places:", error);
+    return;
+  }
+
+  for (const place of pending) {
+    await putLocalPlace({ ...place, pending: false });
+  }
+};
+
+if (typeof window !== "undefined") {
+  window.addEventListener("online", () => {
+    syncPendingPlaces().catch((error) =>
+      console.error("Error syncing offline places:", error)
+    );
+  });
+}
+
+// Replaces the browser's copy with the table, keeping pending places
+const mirrorPlaces = async (places: Place[]) => {
+  const pending = (await getLocalPlaces()).filter((place) => place.pending);
+  await withStore("readwrite", (store) => store.clear());
+  for (const place of [...places.map(toLocalPlace), ...pending]) {
+    await putLocalPlace(place);
+  }
+};
+
+/** Every saved place; also refreshes the copy kept for offline lookups. */
+export const getPlaces = async () => {
+  const { data, error } = await supabase
+    .from("locations")
+    .select("*")
+    .order("label");
+
+  if (data) {
+    mirrorPlaces(data).catch((localError) =>
+      console.error("Error saving offline places:", localError)
+    );
+  }
+
+  return { data, error };
+};
+
+export const createPlace = async (place: PlaceInput) => {
+  const { data, error } = await supabase
+    .from("locations")
+    .insert([{ ...place, edited: true }])
+    .select()
+    .single();
+
+  return { data, error };
+};
+
+export const updatePlace = async (id: string, changes: Partial<PlaceInput>) => {
+  const { data, error } = await supabase
+    .from("locations")
+    .update({ ...changes, edited: true, updated_at: new Date().toISOString() })
+    .eq("id", id)
+    .select()
+    .single();
+
+  return { data, error };
+};
+
+export const deletePlace = async (id: string) => {
+  const { error } = await supabase.from("locations").delete().eq("id", id);
+
+  return { error };
+};
@@ -0,0 +1,29 @@
+import { localNoaaProvider } from "./localNoaa";
+import { sunriseSunsetIoProvider } from "./sunriseSunsetIo";
+import { sunriseSunsetOrgProvider } from "./sunriseSunsetOrg";
+import { AstronomicalProvider } from "./types";
+
+export type {
+  AstronomicalDataResult,
+  AstronomicalProvider,
+  ProviderCapabilities,
+  TwilightTimes,
+} from "./types";
+export { TWILIGHT_FIELDS } from "./types";
+
+// To add a source, implement `AstronomicalProvider` in its own module and
+// list it here. Set `enabled: false` in the module to turn it off.
+const registry: AstronomicalProvider[] = [
+  sunriseSunsetOrgProvider,
+  sunriseSunsetIoProvider,
+  localNoaaProvider,
+];
+
+export const providers = registry.filter((provider) => provider.enabled);
+
+export const defaultProviderIds = providers
+  .filter((provider) => provider.enabledByDefault)
+  .map((provider) => provider.id);
+
+export const getProvider = (id: string) =>
+  providers.find((provider) => provider.id === id);
@@ -0,0 +1,49 @@
+import { calculateSolarTimes, getSolarEventTime } from "@/lib/solar";
+import { AstronomicalProvider } from "./types";
+
+// Computes the same fields the remote APIs return using the offline NOAA
+// algorithm, so collection keeps working without network access.
+export const localNoaaProvider: AstronomicalProvider = {
+  id: "local-noaa",
+  name: "Local NOAA calculator",
+  description: "Computed in the browser, works offline",
+  capabilities: { offline: true, twilight: true, timezone: false },
+  enabled: true,
+  enabledByDefault: true,
+  requestIntervalMs: 0,
+  fetch: async (latitude, longitude, date) => {
+    const { sunrise, sunset, solarNoon, dayLength } = calculateSolarTimes(
+      latitude,
+      longitude,
+      date
+    );
+
+    const eventTime = (altitude: number, rising: boolean) =>
+      getSolarEventTime(
+        latitude,
+        longitude,
+        date,
+        altitude,
+        rising
+      )?.toISOString() ?? null;
+
+    // Polar day and night still give a row, without sunrise and sunset
+    return {
+      data: {
+        sunrise: sunrise?.toISOString() ?? null,
+        sunset: sunset?.toISOString() ?? null,
+        day_length: dayLength,
+        solar_noon: solarNoon.toISOString(),
+        civil_twilight_begin: eventTime(-6, true),
+        civil_twilight_end: eventTime(-6, false),
+        nautical_twilight_begin: eventTime(-12, true),
+        nautical_twilight_end: eventTime(-12, false),
+        astronomical_twilight_begin: eventTime(-18, true),
+        astronomical_twilight_end: eventTime(-18, false),
+        // Golden hour starts when the sun drops below 6 degrees
+        golden_hour: eventTime(6, false),
+      },
+      source: "local-noaa",
+    };
+  },
+};
@@ -0,0 +1,128 @@
+import { calculateSolarTimes } from "@/lib/solar";
+import { AstronomicalProvider } from "./types";
+
+interface SunriseSunsetIoApiResponse {
+  results: {
+    date: string;
+    // Null in polar day and night
+    sunrise: string | null;
+    sunset: string | null;
+    first_light: string | null;
+    last_light: string | null;
+    dawn: string | null;
+    dusk: string | null;
+    solar_noon: string | null;
+    golden_hour: string | null;
+    day_length: string | null;
+    timezone: string;
+    utc_offset: number;
+  };
+  status: string;
+}
+
+// Converts a local "h:mm:ss AM" time on the given date to a UTC Date
+const parseTime = (baseDateStr: string, timeStr: string, utcOffset: number) => {
+  const [timePart, modifier] = timeStr.split(" ");
+  const [h, m, s] = timePart.split(":").map(Number);
+  const hours =
+    modifier === "PM" ? (h % 12) + 12 : modifier === "AM" ? h % 12 : h;
+
+  const date = new Date(`${baseDateStr}T00:00:00Z`);
+  date.setUTCHours(hours, m, s);
+  date.setTime(date.getTime() - utcOffset * 60 * 1000);
+  return date;
+};
+
+// Twilight phases, and sunrise and sunset in polar day and night, are null
+// when they don't occur on the requested day
+const parseOptionalTime = (
+  baseDateStr: string,
+  timeStr: string | null,
+  utcOffset: number
+) =>
+  timeStr && timeStr.includes(":")
+    ? parseTime(baseDateStr, timeStr, utcOffset).toISOString()
+    : null;
+
+// "h:mm:ss" in seconds
+const parseDuration = (value: string) => {
+  const [hours, minutes, seconds] = value.split(":").map(Number);
+  return hours * 3600 + minutes * 60 + seconds;
+};
+
+export const sunriseSunsetIoProvider: AstronomicalProvider = {
+  id: "sunrisesunset.io",
+  name: "SunriseSunset.io",
+  description: "Sunrise/sunset API returning local times and timezone",
+  capabilities: { offline: false, twilight: true, timezone: true },
+  enabled: true,
+  enabledByDefault: true,
+  requestIntervalMs: 500,
+  fetch: async (latitude, longitude, date, signal) => {
+    const formattedDate = date.replace(/-/g, "/");
+    const response = await fetch(
+      `https://api.sunrisesunset.io/json?lat=${latitude}&lng=${longitude}&date=${formattedDate}`,
+      { signal }
+    );
+
+    if (!response.ok) {
+      throw new Error(`sunrisesunset.io API error: ${response.status}`);
+    }
+
+    const data = (await response.json()) as SunriseSunsetIoApiResponse;
+
+    if (data.status !== "OK") {
+      return null;
+    }
+
+    const dateStr = data.results.date; // "2010-05-04"
+    const offset = data.results.utc_offset;
+    const sunrise = parseOptionalTime(dateStr, data.results.sunrise, offset);
+    const sunset = parseOptionalTime(dateStr, data.results.sunset, offset);
+
+    // Without sunrise and sunset the API doesn't say whether the sun stays
+    // up or down; the day length then comes from the local NOAA
+    // calculation (86400 or 0, as local-noaa stores it), as does a missing
+    // solar noon
+    const solarTimes = calculateSolarTimes(latitude, longitude, date);
+    const dayLengthSeconds =
+      (sunrise || sunset) && data.results.day_length?.includes(":")
+        ? parseDuration(data.results.day_length)
+        : solarTimes.dayLength;
+
+    return {
+      data: {
+        sunrise,
+        sunset,
+        day_length: dayLengthSeconds,
+        solar_noon:
+          parseOptionalTime(dateStr, data.results.solar_noon, offset) ??
+          solarTimes.solarNoon.toISOString(),
+        // "dawn" and "dusk" are the start and end of civil twilight
+        civil_twilight_begin: parseOptionalTime(
+          dateStr,
+          data.results.dawn,
+          offset
+        ),
+        civil_twilight_end: parseOptionalTime(
+          dateStr,
+          data.results.dusk,
+          offset
+        ),
+        first_light: parseOptionalTime(
+          dateStr,
+          data.results.first_light,
+          offset
+        ),
+        last_light: parseOptionalTime(dateStr, data.results.last_light, offset),
+        golden_hour: parseOptionalTime(
+          dateStr,
+          data.results.golden_hour,
+          offset
+        ),
+      },
+      source: "sunrisesunset.io",
+      timezone: data.results.timezone,
+    };
+  },
+};
@@ -0,0 +1,71 @@
+import { AstronomicalProvider } from "./types";
+
+interface SunriseSunsetApiResponse {
+  results: {
+    sunrise: string;
+    sunset: string;
+    solar_noon: string;
+    day_length: number;
+    civil_twilight_begin: string;
+    civil_twilight_end: string;
+    nautical_twilight_begin: string;
+    nautical_twilight_end: string;
+    astronomical_twilight_begin: string;
+    astronomical_twilight_end: string;
+  };
+  status: string;
+}
+
+// Phases that don't occur on the requested day come back as the Unix epoch
+const parseTwilight = (value: string) =>
+  !value || value.startsWith("1970-01-01") ? null : value;
+
+export const sunriseSunsetOrgProvider: AstronomicalProvider = {
+  id: "sunrise-sunset.org",
+  name: "Sunrise-Sunset.org",
+  description: "Free sunrise/sunset API returning UTC timestamps",
+  capabilities: { offline: false, twilight: true, timezone: false },
+  enabled: true,
+  enabledByDefault: true,
+  requestIntervalMs: 500,
+  fetch: async (latitude, longitude, date, signal) => {
+    const response = await fetch(
+      `https://api.sunrise-sunset.org/json?lat=${latitude}&lng=${longitude}&date=${date}&formatted=0`,
+      { signal }
+    );
+
+    if (!response.ok) {
+      throw new Error(`sunrise-sunset.org API error: ${response.status}`);
+    }
+
+    const data = (await response.json()) as SunriseSunsetApiResponse;
+
+    if (data.status !== "OK") {
+      return null;
+    }
+
+    return {
+      data: {
+        sunrise: data.results.sunrise,
+        sunset: data.results.sunset,
+        day_length: data.results.day_length,
+        solar_noon: data.results.solar_noon,
+        civil_twilight_begin: parseTwilight(data.results.civil_twilight_begin),
+        civil_twilight_end: parseTwilight(data.results.civil_twilight_end),
+        nautical_twilight_begin: parseTwilight(
+          data.results.nautical_twilight_begin
+        ),
+        nautical_twilight_end: parseTwilight(
+          data.results.nautical_twilight_end
+        ),
+        astronomical_twilight_begin: parseTwilight(
+          data.results.astronomical_twilight_begin
+        ),
+        astronomical_twilight_end: parseTwilight(
+          data.results.astronomical_twilight_end
+        ),
+      },
+      source: "sunrise-sunset.org",
+    };
+  },
+};
@@ -0,0 +1,70 @@
+// ISO timestamps of the twilight phases around sunrise and sunset. A phase
+// is null when it does not occur on that day or the provider doesn't report it.
+export interface TwilightTimes {
+  civil_twilight_begin?: string | null;
+  civil_twilight_end?: string | null;
+  nautical_twilight_begin?: string | null;
+  nautical_twilight_end?: string | null;
+  astronomical_twilight_begin?: string | null;
+  astronomical_twilight_end?: string | null;
+  first_light?: string | null;
+  last_light?: string | null;
+  // Start of the evening golden hour
+  golden_hour?: string | null;
+}
+
+export const TWILIGHT_FIELDS: (keyof TwilightTimes)[] = [
+  "civil_twilight_begin",
+  "civil_twilight_end",
+  "nautical_twilight_begin",
+  "nautical_twilight_end",
+  "astronomical_twilight_begin",
+  "astronomical_twilight_end",
+  "first_light",
+  "last_light",
+  "golden_hour",
+];
+
+export interface AstronomicalDataResult {
+  data: {
+    // Null in polar day or night, when day_length is 86400 or 0
+    sunrise: string | null;
+    sunset: string | null;
+    day_length: number;
+    solar_noon: string;
+  } & TwilightTimes;
+  source: string;
+  // IANA timezone of the location, when the provider reports it
+  timezone?: string;
+}
+
+export interface ProviderCapabilities {
+  // Works without network access
+  offline: boolean;
+  // Returns twilight phases in addition to sunrise/sunset
+  twilight: boolean;
+  // Reports the IANA timezone of the requested location
+  timezone: boolean;
+}
+
+export interface AstronomicalProvider {
+  // Stored in the `source` column of every row this provider produces
+  id: string;
+  name: string;
+  description: string;
+  capabilities: ProviderCapabilities;
+  // Providers with `enabled: false` are hidden from the collector
+  enabled: boolean;
+  enabledByDefault: boolean;
+  // Minimum time between two requests to this provider during bulk
+  // collection; 0 for providers that don't call an API
+  requestIntervalMs: number;
+  // Resolves to `null` when the provider has no data for the request and
+  // rejects on network or HTTP errors, or when `signal` is aborted.
+  fetch: (
+    latitude: number,
+    longitude: number,
+    date: string,
+    signal?: AbortSignal
+  ) => Promise<AstronomicalDataResult | null>;
+}
@@ -0,0 +1,227 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Database, Tables } from "@/integrations/supabase/types";
+import { SortableColumn } from "@/lib/astronomicalTable";
+
+export interface AstronomicalDataFilters {
+  // Case-insensitive substring of the location name
+  location?: string;
+  // Inclusive "yyyy-MM-dd" bounds
+  dateFrom?: string;
+  dateTo?: string;
+  source?: string;
+}
+
+export interface AstronomicalDataQuery extends AstronomicalDataFilters {
+  sortBy?: SortableColumn;
+  sortOrder?: "asc" | "desc";
+  // 1-based; all matching rows are returned when pageSize is not set
+  page?: number;
+  pageSize?: number;
+}
+
+// Sunrise and sunset sort by time of day in the location's timezone, even
+// when the table shows them in UTC or the viewer's zone
+const SORT_COLUMNS: Record<SortableColumn, string> = {
+  location: "location",
+  date: "date",
+  day_length: "day_length",
+  sunrise: "sunrise_local_seconds",
+  sunset: "sunset_local_seconds",
+  source: "source",
+};
+
+// Rows per request when fetching everything; matches the API's max-rows
+const FETCH_ALL_BATCH_SIZE = 1000;
+
+const escapeLikePattern = (value: string) => value.replace(/[\\%_]/g, "\\$&");
+
+const buildQuery = (query: AstronomicalDataQuery) => {
+  let request = supabase
+    .from("astronomical_data")
+    .select("*", { count: "exact" });
+
+  if (query.location?.trim()) {
+    request = request.ilike(
+      "location",
+      `%${escapeLikePattern(query.location.trim())}%`
+    );
+  }
+  if (query.dateFrom) {
+    request = request.gte("date", query.dateFrom);
+  }
+  if (query.dateTo) {
+    request = request.lte("date", query.dateTo);
+  }
+  if (query.source) {
+    request = request.eq("source", query.source);
+  }
+
+  // Order by id last so pages are stable when the sort column has ties
+  return request
+    .order(SORT_COLUMNS[query.sortBy ?? "date"], {
+      ascending: query.sortOrder === "asc",
+    })
+    .order("id", { ascending: true });
+};
+
+export const queryAstronomicalData = async (query: AstronomicalDataQuery) => {
+  let request = buildQuery(query);
+
+  if (query.pageSize) {
+    const from = ((query.page ?? 1) - 1) * query.pageSize;
+    request = request.range(from, from + query.pageSize - 1);
+  }
+
+  const { data, error, count } = await request;
+
+  return { data, count, error };
+};
+
+/** Every row matching the filters, fetched in batches. */
+export const fetchAllAstronomicalData = async (
+  query: AstronomicalDataQuery
+) => {
+  const rows: Tables<"astronomical_data">[] = [];
+
+  for (let page = 1; ; page++) {
+    const { data, count, error } = await queryAstronomicalData({
+      ...query,
+      page,
+      pageSize: FETCH_ALL_BATCH_SIZE,
+    });
+
+    if (error) return { data: null, error };
+
+    rows.push(...(data || []));
+
+    if (!data || data.length < FETCH_ALL_BATCH_SIZE || rows.length >= count) {
+      return { data: rows, error: null };
+    }
+  }
+};
+
+export interface CollectedLocation {
+  location: string;
+  latitude: number;
+  longitude: number;
+  country: string | null;
+  rows: number;
+  // "yyyy-MM-dd" range of the collected dates
+  firstDate: string;
+  lastDate: string;
+}
+
+export interface AstronomicalSummary {
+  rows: number;
+  // Day lengths in seconds; null without rows
+  avgDayLength: number | null;
+  maxDayLength: number | null;
+  minDayLength: number | null;
+  sources: { source: string; rows: number }[];
+  locations: { location: string; latitude: number; avgDayLength: number }[];
+}
+
+export type ChartPoint =
+  Database["public"]["Functions"]["astronomical_chart_points"]["Returns"][number];
+
+// Points per chart request; the database caps the total at
+// astronomical_chart_points' max_points
+const CHART_POINTS_BATCH_SIZE = 1000;
+
+const filterArgs = (filters: AstronomicalDataFilters) => ({
+  location_pattern: filters.location?.trim()
+    ? escapeLikePattern(filters.location.trim())
+    : undefined,
+  date_from: filters.dateFrom,
+  date_to: filters.dateTo,
+  source_filter: filters.source,
+});
+
+/** Day length and row totals of the rows matching the filters. */
+export const getAstronomicalSummary = async (
+  filters: AstronomicalDataFilters
+) => {
+  const { data, error } = await supabase.rpc(
+    "astronomical_summary",
+    filterArgs(filters)
+  );
+
+  if (error) return { data: null, error };
+
+  const summary = data as {
+    rows: number;
+    avg_day_length: number | null;
+    max_day_length: number | null;
+    min_day_length: number | null;
+    sources: { source: string; rows: number }[];
+    locations: { location: string; latitude: number; avg_day_length: number }[];
+  };
+
+  const result: AstronomicalSummary = {
+    rows: summary.rows,
+    avgDayLength: summary.avg_day_length,
+    maxDayLength: summary.max_day_length,
+    minDayLength: summary.min_day_length,
+    sources: summary.sources,
+    locations: summary.locations.map((location) => ({
+      location: location.location,
+      latitude: location.latitude,
+      avgDayLength: location.avg_day_length,
+    })),
+  };
+
+  return { data: result, error: null };
+};
+
+/**
+ * The rows matching the filters averaged by the database into date
+ * buckets per location and source, few enough to chart.
+ */
+export const fetchChartPoints = async (filters: AstronomicalDataFilters) => {
+  const points: ChartPoint[] = [];
+
+  for (let from = 0; ; from += CHART_POINTS_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .rpc("astronomical_chart_points", filterArgs(filters))
+      .range(from, from + CHART_POINTS_BATCH_SIZE - 1);
+
+    if (error) return { data: null, error };
+
+    points.push(...data);
+
+    if (data.length < CHART_POINTS_BATCH_SIZE) {
+      return { data: points, error: null };
+    }
+  }
+};
+
+/** Every location with collected data, with its coordinates and coverage. */
+export const getCollectedLocations = async () => {
+  const locations: CollectedLocation[] = [];
+
+  for (let from = 0; ; from += FETCH_ALL_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from("collected_locations")
+      .select("*")
+      .order("location_key", { ascending: true })
+      .range(from, from + FETCH_ALL_BATCH_SIZE - 1);
+
+    if (error) return { data: null, error };
+
+    data.forEach((row) =>
+      locations.push({
+        location: row.location,
+        latitude: row.latitude,
+        longitude: row.longitude,
+        country: row.country,
+        rows: row.rows,
+        firstDate: row.first_date,
+        lastDate: row.last_date,
+      })
+    );
+
+    if (data.length < FETCH_ALL_BATCH_SIZE) {
+      return { data: locations, error: null };
+    }
+  }
+};
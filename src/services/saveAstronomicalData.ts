@@ -1,36 +1,154 @@
 import { supabase } from "@/integrations/supabase/client";
-import { AstronomicalDataResult } from "./fetchAstronimicalData";
+import { AstronomicalDataResult } from "./providers";
+import { emptySpaceData, SpaceData } from "./spaceData";
+import {
+  displayTimeZone,
+  resolveTimeZone,
+  secondsSinceMidnight,
+} from "@/lib/timezone";
+
+// "skip" leaves rows that were already collected untouched, "refresh"
+// overwrites them with the new values
+export type SaveMode = "skip" | "refresh";
+
+export interface SaveResult {
+  inserted: number;
+  updated: number;
+  skipped: number;
+  failed: number;
+}
+
+// Must match the generated location_key column in the database
+export const normalizeLocation = (location: string) =>
+  location.trim().replace(/\s+/g, " ").toLowerCase();
+
+// Rows per request when listing collected sources
+const COLLECTED_BATCH_SIZE = 1000;
+
+/** Sources that already have a row for the location, keyed by date. */
+export const getCollectedSources = async (
+  location: string,
+  dateFrom: string,
+  dateTo = dateFrom
+) => {
+  const collected: Record<string, string[]> = {};
+
+  for (let from = 0; ; from += COLLECTED_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from("astronomical_data")
+      .select("date, source")
+      .eq("location_key", normalizeLocation(location))
+      .gte("date", dateFrom)
+      .lte("date", dateTo)
+      .order("id")
+      .range(from, from + COLLECTED_BATCH_SIZE - 1);
+
+    if (error) return { data: null, error };
+
+    data.forEach((row) => {
+      if (!collected[row.date]) {
+        collected[row.date] = [];
+      }
+      collected[row.date].push(row.source);
+    });
+
+    if (data.length < COLLECTED_BATCH_SIZE) {
+      return { data: collected, error: null };
+    }
+  }
+};
 
 export const saveAstronomicalData = async (
   apiResponses: AstronomicalDataResult[],
   location: string,
   lat: number,
   lng: number,
-  formattedDate: string
-) => {
-  for (const response of apiResponses) {
+  formattedDate: string,
+  spaceData: SpaceData = emptySpaceData,
+  mode: SaveMode = "refresh",
+  country: string | null = null,
+  // Sources already stored for the date, when the caller looked them up
+  collectedSources: string[] | null = null
+): Promise<SaveResult> => {
+  // Every row of a location shares the timezone any provider reported
+  const timezone = resolveTimeZone(apiResponses);
+  // Local times for sorting fall back to the zone the table displays in
+  const localZone = displayTimeZone("location", { timezone, longitude: lng });
+
+  let existing = new Set(collectedSources || []);
+  if (!collectedSources) {
+    const { data: collected, error: lookupError } = await getCollectedSources(
+      location,
+      formattedDate
+    );
+    if (lookupError) {
+      console.error("Error looking up collected sources:", lookupError);
+    }
+    existing = new Set(collected?.[formattedDate] || []);
+  }
+  const responses =
+    mode === "skip"
+      ? apiResponses.filter((response) => !existing.has(response.source))
+      : apiResponses;
+  const result: SaveResult = {
+    inserted: 0,
+    updated: 0,
+    skipped: apiResponses.length - responses.length,
+    failed: 0,
+  };
+
+  for (const response of responses) {
     const astronomicalData = {
       location: location,
+      country,
       latitude: lat,
       longitude: lng,
       date: formattedDate,
       sunrise: response.data.sunrise,
       sunset: response.data.sunset,
+      sunrise_local_seconds: response.data.sunrise
+        ? secondsSinceMidnight(response.data.sunrise, localZone)
+        : null,
+      sunset_local_seconds: response.data.sunset
+        ? secondsSinceMidnight(response.data.sunset, localZone)
+        : null,
       day_length: response.data.day_length,
       solar_noon: response.data.solar_noon,
-      iss_passes: 0,
-      iss_next_pass: null,
-      people_in_space: 0,
-      people_details: null,
+      civil_twilight_begin: response.data.civil_twilight_begin ?? null,
+      civil_twilight_end: response.data.civil_twilight_end ?? null,
+      nautical_twilight_begin: response.data.nautical_twilight_begin ?? null,
+      nautical_twilight_end: response.data.nautical_twilight_end ?? null,
+      astronomical_twilight_begin:
+        response.data.astronomical_twilight_begin ?? null,
+      astronomical_twilight_end:
+        response.data.astronomical_twilight_end ?? null,
+      first_light: response.data.first_light ?? null,
+      last_light: response.data.last_light ?? null,
+      golden_hour: response.data.golden_hour ?? null,
+      iss_passes: spaceData.iss_passes,
+      iss_next_pass: spaceData.iss_next_pass,
+      people_in_space: spaceData.people_in_space,
+      people_details: spaceData.people_details,
       source: response.source,
+      timezone,
     };
 
     const { error } = await supabase
       .from("astronomical_data")
-      .insert([astronomicalData]);
+      .upsert([astronomicalData], {
+        onConflict: "location_key,date,source",
+        ignoreDuplicates: mode === "skip",
+      });
 
     if (error) {
       console.error(`Error saving ${response.source} data:`, error);
+      result.failed++;
+    } else if (existing.has(response.source)) {
+      result.updated++;
+    } else {
+      result.inserted++;
     }
   }
+
+  return result;
 };
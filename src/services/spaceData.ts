@@ -0,0 +1,158 @@
+import { ISS_TLE } from "@/data/issTle";
+import { OrbitalElements, parseTle, predictPasses } from "@/lib/orbit";
+import { Json } from "@/integrations/supabase/types";
+
+const PEOPLE_IN_SPACE_URL =
+  import.meta.env.VITE_PEOPLE_IN_SPACE_URL ||
+  "http://api.open-notify.org/astros.json";
+const ISS_TLE_URL =
+  import.meta.env.VITE_ISS_TLE_URL ||
+  "https://celestrak.org/NORAD/elements/gp.php?CATNR=25544&FORMAT=tle";
+
+// The propagator is only trusted this close to the TLE epoch
+const MAX_TLE_AGE_DAYS = 14;
+// How far past the requested date to look for the next pass
+const NEXT_PASS_SEARCH_DAYS = 3;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+interface PeopleInSpaceApiResponse {
+  number: number;
+  people: { name: string; craft: string }[];
+  message: string;
+}
+
+export interface SpaceData {
+  iss_passes: number | null;
+  iss_next_pass: string | null;
+  people_in_space: number | null;
+  people_details: Json | null;
+}
+
+export const emptySpaceData: SpaceData = {
+  iss_passes: null,
+  iss_next_pass: null,
+  people_in_space: null,
+  people_details: null,
+};
+
+// Both lookups are shared by every date of a collection run
+let tlePromise: Promise<OrbitalElements> | null = null;
+let peoplePromise: Promise<PeopleInSpaceApiResponse | null> | null = null;
+
+const loadIssElements = () => {
+  if (!tlePromise) {
+    tlePromise = fetch(ISS_TLE_URL)
+      .then(async (response) => {
+        if (!response.ok) {
+          throw new Error(`TLE API error: ${response.status}`);
+        }
+        const lines = (await response.text())
+          .split("\n")
+          .map((line) => line.trim());
+        const line1 = lines.find((line) => line.startsWith("1 "));
+        const line2 = lines.find((line) => line.startsWith("2 "));
+        if (!line1 || !line2) {
+          throw new Error("TLE response did not contain two element lines");
+        }
+        return parseTle(line1, line2);
+      })
+      .catch((error) => {
+        console.error("Error fetching ISS TLE, using bundled elements:", error);
+        return parseTle(ISS_TLE.line1, ISS_TLE.line2);
+      });
+  }
+  return tlePromise;
+};
+
+/**
+ * Whether the browser blocks the people-in-space API as mixed content: the
+ * default open-notify endpoint is plain http, which an https page can't
+ * fetch. Set VITE_PEOPLE_IN_SPACE_URL to an https proxy in that case.
+ */
+export const isPeopleInSpaceBlocked = () =>
+  typeof window !== "undefined" &&
+  window.location.protocol === "https:" &&
+  new URL(PEOPLE_IN_SPACE_URL, window.location.href).protocol === "http:";
+
+const loadPeopleInSpace = () => {
+  if (isPeopleInSpaceBlocked()) {
+    console.warn(
+      `Not fetching people in space: ${PEOPLE_IN_SPACE_URL} is http and this page is https`
+    );
+    return Promise.resolve(null);
+  }
+  if (!peoplePromise) {
+    peoplePromise = fetch(PEOPLE_IN_SPACE_URL)
+      .then(async (response) => {
+        if (!response.ok) {
+          throw new Error(`People in space API error: ${response.status}`);
+        }
+        return (await response.json()) as PeopleInSpaceApiResponse;
+      })
+      .catch((error) => {
+        console.error("Error fetching people in space:", error);
+        peoplePromise = null;
+        return null;
+      });
+  }
+  return peoplePromise;
+};
+
+const getIssPasses = async (
+  latitude: number,
+  longitude: number,
+  date: string
+) => {
+  const elements = await loadIssElements();
+  const dayStart = new Date(`${date}T00:00:00Z`);
+  const ageDays =
+    Math.abs(dayStart.getTime() - elements.epoch.getTime()) / MS_PER_DAY;
+
+  if (ageDays > MAX_TLE_AGE_DAYS) {
+    console.warn(
+      `ISS elements are ${Math.round(
+        ageDays
+      )} days from ${date}, skipping pass prediction`
+    );
+    return { iss_passes: null, iss_next_pass: null };
+  }
+
+  const dayEnd = new Date(dayStart.getTime() + MS_PER_DAY);
+  const passes = predictPasses(elements, latitude, longitude, dayStart, dayEnd);
+  const nextPass =
+    passes[0] ??
+    predictPasses(
+      elements,
+      latitude,
+      longitude,
+      dayEnd,
+      new Date(dayStart.getTime() + NEXT_PASS_SEARCH_DAYS * MS_PER_DAY)
+    )[0];
+
+  return {
+    iss_passes: passes.length,
+    iss_next_pass: nextPass ? nextPass.rise.toISOString() : null,
+  };
+};
+
+// ISS passes over the location on the given UTC date, and the people
+// currently in space. Fields that can't be determined are left null.
+export const getSpaceData = async (
+  latitude: number,
+  longitude: number,
+  date: string
+): Promise<SpaceData> => {
+  const [passes, people] = await Promise.all([
+    getIssPasses(latitude, longitude, date).catch((error) => {
+      console.error("Error predicting ISS passes:", error);
+      return { iss_passes: null, iss_next_pass: null };
+    }),
+    loadPeopleInSpace(),
+  ]);
+
+  return {
+    ...passes,
+    people_in_space: people ? people.number : null,
+    people_details: people ? people.people : null,
+  };
+};
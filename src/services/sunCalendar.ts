@@ -0,0 +1,216 @@
+import { supabase } from "@/integrations/supabase/client";
+import { ParseResult, parseCoordinate } from "@/lib/coordinates";
+import { parseDate } from "@/lib/dates";
+import {
+  buildSunCalendar,
+  DEFAULT_SUN_EVENTS,
+  SUN_EVENT_KINDS,
+  SunCalendarOptions,
+  SunCalendarRow,
+  SunEventKind,
+} from "@/lib/icalendar";
+import {
+  formatIsoInTimeZone,
+  isValidTimeZone,
+  nauticalTimeZone,
+} from "@/lib/timezone";
+import { normalizeLocation } from "./saveAstronomicalData";
+
+// Where the calendar feed is served, by scripts/serve-calendar.mjs unless
+// it's deployed elsewhere
+const SUN_CALENDAR_FEED_URL =
+  import.meta.env.VITE_SUN_CALENDAR_FEED_URL ||
+  "http://localhost:8787/sun-calendar.ics";
+
+export interface SunCalendarRequest extends SunCalendarOptions {
+  // Stored rows of this source are used where collected; null computes
+  // every time
+  source: string | null;
+}
+
+// Days a subscribed feed covers from today, unless given
+export const DEFAULT_FEED_DAYS = 90;
+const MAX_FEED_DAYS = 3 * 366;
+
+// Rows per request when fetching stored times
+const ROWS_BATCH_SIZE = 1000;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const fetchStoredRows = async (
+  location: string,
+  source: string,
+  dateFrom: string,
+  dateTo: string
+) => {
+  const rows: SunCalendarRow[] = [];
+
+  for (let from = 0; ; from += ROWS_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from("astronomical_data")
+      .select(
+        "date, sunrise, sunset, civil_twilight_begin, civil_twilight_end, golden_hour"
+      )
+      .eq("location_key", normalizeLocation(location))
+      .eq("source", source)
+      .gte("date", dateFrom)
+      .lte("date", dateTo)
+      .order("date")
+      .range(from, from + ROWS_BATCH_SIZE - 1);
+
+    if (error) return { data: null, error };
+    rows.push(...data);
+
+    if (data.length < ROWS_BATCH_SIZE) return { data: rows, error: null };
+  }
+};
+
+/** Sources with stored rows for the location, and the timezone they report. */
+export const getStoredSunCalendarSources = async (location: string) => {
+  const sources = new Set<string>();
+  let timeZone: string | null = null;
+
+  for (let from = 0; ; from += ROWS_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from("astronomical_data")
+      .select("source, timezone")
+      .eq("location_key", normalizeLocation(location))
+      .order("id")
+      .range(from, from + ROWS_BATCH_SIZE - 1);
+
+    if (error) return { data: null, error };
+
+    data.forEach((row) => {
+      sources.add(row.source);
+      if (!timeZone && row.timezone && isValidTimeZone(row.timezone)) {
+        timeZone = row.timezone;
+      }
+    });
+
+    if (data.length < ROWS_BATCH_SIZE) {
+      return {
+        data: { sources: Array.from(sources).sort(), timeZone },
+        error: null,
+      };
+    }
+  }
+};
+
+/** The ICS text for a location and date range. */
+export const createSunCalendar = async (request: SunCalendarRequest) => {
+  const { source, ...options } = request;
+  if (!source) return { data: buildSunCalendar(options), error: null };
+
+  const { data, error } = await fetchStoredRows(
+    options.location,
+    source,
+    options.dateFrom,
+    options.dateTo
+  );
+  if (error) return { data: null, error };
+
+  return { data: buildSunCalendar(options, data), error: null };
+};
+
+/**
+ * Subscribe URL of a feed that always covers the next `days` days, so
+ * calendars keep showing upcoming events as they refresh it.
+ */
+export const sunCalendarFeedUrl = (
+  request: Omit<SunCalendarRequest, "dateFrom" | "dateTo">,
+  days = DEFAULT_FEED_DAYS
+) => {
+  const params = new URLSearchParams({
+    location: request.location,
+    lat: String(request.latitude),
+    lng: String(request.longitude),
+    tz: request.timeZone,
+    events: request.events.join(","),
+    days: String(days),
+  });
+  if (request.source) params.set("source", request.source);
+  if (request.alarmMinutes !== null) {
+    params.set("alarm", String(request.alarmMinutes));
+  }
+  return `${SUN_CALENDAR_FEED_URL}?${params}`;
+};
+
+const addDays = (date: string, days: number) =>
+  new Date(Date.parse(`${date}T00:00:00Z`) + days * MS_PER_DAY)
+    .toISOString()
+    .slice(0, 10);
+
+/**
+ * Reads a feed request from the subscribe URL's parameters. Without
+ * "from" the feed starts today in the location's timezone; without "to"
+ * it runs for "days" days.
+ */
+export const readSunCalendarParams = (
+  params: URLSearchParams
+): ParseResult<SunCalendarRequest> => {
+  const failure = (error: string) => ({ value: null, error });
+
+  const location = params.get("location")?.trim();
+  if (!location) return failure("location is required");
+  const latitude = parseCoordinate(params.get("lat") ?? "", "latitude");
+  if (latitude.error) return failure(latitude.error);
+  const longitude = parseCoordinate(params.get("lng") ?? "", "longitude");
+  if (longitude.error) return failure(longitude.error);
+
+  const tz = params.get("tz");
+  if (tz && !isValidTimeZone(tz)) {
+    return failure(`Time zone "${tz}" isn't a known zone`);
+  }
+  const timeZone = tz || nauticalTimeZone(longitude.value);
+
+  const known = SUN_EVENT_KINDS.map((item) => item.value);
+  const events = params.has("events")
+    ? (params.get("events").split(",").filter(Boolean) as SunEventKind[])
+    : DEFAULT_SUN_EVENTS;
+  const unknown = events.find((event) => !known.includes(event));
+  if (unknown) return failure(`Unknown event "${unknown}"`);
+
+  const alarm = params.get("alarm");
+  const alarmMinutes = alarm ? Number(alarm) : null;
+  if (
+    alarmMinutes !== null &&
+    !(Number.isInteger(alarmMinutes) && alarmMinutes >= 0)
+  ) {
+    return failure("alarm must be a whole number of minutes");
+  }
+
+  // Everything is checked before any date arithmetic, which throws on
+  // dates out of range
+  const from = params.get("from") ? parseDate(params.get("from")) : null;
+  const to = params.get("to") ? parseDate(params.get("to")) : null;
+  if (from?.error || to?.error) {
+    return failure("from and to must be dates like 2026-06-21");
+  }
+  const days = Number(params.get("days") || DEFAULT_FEED_DAYS);
+  if (!Number.isInteger(days) || days < 1 || days > MAX_FEED_DAYS) {
+    return failure(`days must be a whole number from 1 to ${MAX_FEED_DAYS}`);
+  }
+
+  const dateFrom =
+    from?.value ?? formatIsoInTimeZone(new Date(), timeZone).slice(0, 10);
+  const dateTo = to?.value ?? addDays(dateFrom, days - 1);
+  const span = (Date.parse(dateTo) - Date.parse(dateFrom)) / MS_PER_DAY + 1;
+  if (span < 1 || span > MAX_FEED_DAYS) {
+    return failure(`The feed can cover 1 to ${MAX_FEED_DAYS} days`);
+  }
+
+  return {
+    value: {
+      location,
+      latitude: latitude.value,
+      longitude: longitude.value,
+      timeZone,
+      dateFrom,
+      dateTo,
+      events,
+      alarmMinutes,
+      source: params.get("source") || null,
+    },
+    error: null,
+  };
+};
@@ -0,0 +1,14 @@
+-- Twilight phases reported by sunrise-sunset.org and sunrisesunset.io, and
+-- computed by the local NOAA provider. Null when a phase does not occur
+-- (e.g. no astronomical night at high latitudes in summer) or the source
+-- does not report it.
+alter table public.astronomical_data
+  add column if not exists civil_twilight_begin timestamptz,
+  add column if not exists civil_twilight_end timestamptz,
+  add column if not exists nautical_twilight_begin timestamptz,
+  add column if not exists nautical_twilight_end timestamptz,
+  add column if not exists astronomical_twilight_begin timestamptz,
+  add column if not exists astronomical_twilight_end timestamptz,
+  add column if not exists first_light timestamptz,
+  add column if not exists last_light timestamptz,
+  add column if not exists golden_hour timestamptz;
@@ -0,0 +1,5 @@
+-- IANA timezone of the location, used to show location-local times.
+-- Taken from sunrisesunset.io when available, otherwise the nautical
+-- Etc/GMT zone for the longitude.
+alter table public.astronomical_data
+  add column if not exists timezone text;
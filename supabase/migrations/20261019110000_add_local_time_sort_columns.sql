@@ -0,0 +1,43 @@
+-- Time of day (seconds since local midnight in the row's timezone) of
+-- sunrise and sunset, so the data table can sort by time of day on the
+-- server instead of by absolute timestamp.
+alter table public.astronomical_data
+  add column if not exists sunrise_local_seconds integer,
+  add column if not exists sunset_local_seconds integer;
+
+-- Rows without a timezone are in the nautical zone of their longitude, as
+-- the app displays and writes them (nauticalTimeZone in
+-- src/lib/timezone.ts; floor(x + 0.5) rounds like Math.round)
+with zones as (
+  select
+    id,
+    coalesce(
+      timezone,
+      case
+        when floor(longitude / 15 + 0.5) = 0 then 'Etc/GMT'
+        when floor(longitude / 15 + 0.5) > 0
+          then 'Etc/GMT-' || floor(longitude / 15 + 0.5)::integer
+        else 'Etc/GMT+' || -floor(longitude / 15 + 0.5)::integer
+      end
+    ) as zone
+  from public.astronomical_data
+  where sunrise_local_seconds is null or sunset_local_seconds is null
+)
+update public.astronomical_data d
+set
+  sunrise_local_seconds = extract(
+    epoch from (d.sunrise::timestamptz at time zone z.zone)::time
+  )::integer,
+  sunset_local_seconds = extract(
+    epoch from (d.sunset::timestamptz at time zone z.zone)::time
+  )::integer
+from zones z
+where d.id = z.id;
+
+-- Filters used by the paginated table
+create index if not exists astronomical_data_date_idx
+  on public.astronomical_data (date);
+create index if not exists astronomical_data_location_idx
+  on public.astronomical_data (location);
+create index if not exists astronomical_data_source_idx
+  on public.astronomical_data (source);
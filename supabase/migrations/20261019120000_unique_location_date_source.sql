@@ -0,0 +1,28 @@
+-- One row per location, date and source. Locations are compared after
+-- trimming, collapsing whitespace and lowercasing, so "New York" and
+-- " new  york" are the same place. The save path upserts on this key.
+alter table public.astronomical_data
+  add column if not exists location_key text
+  generated always as (
+    lower(regexp_replace(btrim(location), '\s+', ' ', 'g'))
+  ) stored;
+
+-- Keep the most recently collected row of each existing duplicate
+delete from public.astronomical_data
+where id in (
+  select id
+  from (
+    select
+      id,
+      row_number() over (
+        partition by location_key, date, source
+        order by created_at desc, id desc
+      ) as position
+    from public.astronomical_data
+  ) ranked
+  where position > 1
+);
+
+alter table public.astronomical_data
+  add constraint astronomical_data_location_key_date_source_key
+  unique (location_key, date, source);
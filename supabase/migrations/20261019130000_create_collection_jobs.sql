@@ -0,0 +1,34 @@
+-- A collection run over a location and date range. Dates are recorded as
+-- they finish so a paused or interrupted run can be resumed later.
+create table if not exists public.collection_jobs (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  status text not null default 'running'
+    check (status in ('running', 'paused', 'completed', 'cancelled')),
+  location text not null,
+  latitude double precision not null,
+  longitude double precision not null,
+  date_from date not null,
+  date_to date not null,
+  provider_ids text[] not null,
+  save_mode text not null default 'skip'
+    check (save_mode in ('skip', 'refresh')),
+  completed_dates date[] not null default '{}',
+  failed_dates date[] not null default '{}',
+  inserted integer not null default 0,
+  updated integer not null default 0,
+  skipped integer not null default 0,
+  failed integer not null default 0
+);
+
+create index if not exists collection_jobs_created_at_idx
+  on public.collection_jobs (created_at desc);
+
+alter table public.collection_jobs enable row level security;
+
+create policy "Anyone can manage collection jobs"
+  on public.collection_jobs
+  for all
+  using (true)
+  with check (true);
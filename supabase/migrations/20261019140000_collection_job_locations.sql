@@ -0,0 +1,31 @@
+-- Collection jobs cover several locations. Progress is recorded per
+-- location and date as "<location name>|<yyyy-MM-dd>" keys.
+alter table public.collection_jobs
+  add column if not exists locations jsonb not null default '[]'::jsonb,
+  add column if not exists completed_keys text[] not null default '{}',
+  add column if not exists failed_keys text[] not null default '{}';
+
+update public.collection_jobs
+set
+  locations = jsonb_build_array(
+    jsonb_build_object(
+      'name', location,
+      'latitude', latitude,
+      'longitude', longitude
+    )
+  ),
+  completed_keys = array(
+    select location || '|' || completed::text
+    from unnest(completed_dates) as completed
+  ),
+  failed_keys = array(
+    select location || '|' || failed::text
+    from unnest(failed_dates) as failed
+  );
+
+alter table public.collection_jobs
+  drop column location,
+  drop column latitude,
+  drop column longitude,
+  drop column completed_dates,
+  drop column failed_dates;
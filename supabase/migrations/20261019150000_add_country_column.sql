@@ -0,0 +1,4 @@
+-- Country of the geocoded place the row was collected for. The location
+-- column holds its canonical name, e.g. "Paris, Île-de-France, France".
+alter table public.astronomical_data
+  add column if not exists country text;
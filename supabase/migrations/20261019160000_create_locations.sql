@@ -0,0 +1,35 @@
+-- Geocoded places, reused instead of asking the geocoding service again.
+-- A lookup matches a place when its normalized query is one of the
+-- place's aliases. Places can be corrected or added by hand on the Places
+-- page.
+create table if not exists public.locations (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  label text not null,
+  name text not null,
+  display_name text not null,
+  country text,
+  type text not null default 'city',
+  latitude double precision not null
+    check (latitude between -90 and 90),
+  longitude double precision not null
+    check (longitude between -180 and 180),
+  -- Higher is listed first among the matches of a query
+  importance double precision not null default 0,
+  aliases text[] not null default '{}',
+  -- Set when the place was entered or edited by hand
+  edited boolean not null default false,
+  constraint locations_label_key unique (label)
+);
+
+create index if not exists locations_aliases_idx
+  on public.locations using gin (aliases);
+
+alter table public.locations enable row level security;
+
+create policy "Anyone can manage locations"
+  on public.locations
+  for all
+  using (true)
+  with check (true);
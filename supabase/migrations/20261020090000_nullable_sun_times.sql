@@ -0,0 +1,7 @@
+-- Polar day and polar night have no sunrise or sunset, and providers may
+-- not report solar noon for them. Those rows are stored with the missing
+-- times null and day_length 86400 or 0.
+alter table public.astronomical_data
+  alter column sunrise drop not null,
+  alter column sunset drop not null,
+  alter column solar_noon drop not null;
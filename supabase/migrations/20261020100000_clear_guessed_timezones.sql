@@ -0,0 +1,37 @@
+-- Rows without a provider-reported timezone used to store the nautical zone
+-- guessed from the longitude. The guess is now only made when displaying,
+-- so clear the stored ones.
+update public.astronomical_data
+  set timezone = null
+  where timezone like 'Etc/GMT%';
+
+-- Local times of rows without a timezone are in the nautical zone, as the
+-- app displays and writes them (nauticalTimeZone in src/lib/timezone.ts;
+-- floor(x + 0.5) rounds like Math.round). Recomputed so the sort agrees
+-- with the times shown.
+with zones as (
+  select
+    id,
+    floor(longitude / 15 + 0.5)::integer as hours
+  from public.astronomical_data
+  where timezone is null
+)
+update public.astronomical_data d
+set
+  sunrise_local_seconds = extract(
+    epoch from (d.sunrise::timestamptz at time zone z.zone)::time
+  )::integer,
+  sunset_local_seconds = extract(
+    epoch from (d.sunset::timestamptz at time zone z.zone)::time
+  )::integer
+from (
+  select
+    id,
+    case
+      when hours = 0 then 'Etc/GMT'
+      when hours > 0 then 'Etc/GMT-' || hours
+      else 'Etc/GMT+' || -hours
+    end as zone
+  from zones
+) z
+where d.id = z.id;
@@ -0,0 +1,202 @@
+-- Summaries computed in the database so pages don't page through every
+-- stored row to build them.
+
+-- One row per collected location, for the map
+create or replace view public.collected_locations
+  with (security_invoker = true)
+as
+select
+  location_key,
+  min(location) as location,
+  avg(latitude) as latitude,
+  avg(longitude) as longitude,
+  max(country) as country,
+  count(*)::integer as rows,
+  min(date) as first_date,
+  max(date) as last_date
+from public.astronomical_data
+group by location_key;
+
+-- The rows matching the Visualize filters
+create or replace function public.astronomical_filtered(
+  location_pattern text default null,
+  date_from date default null,
+  date_to date default null,
+  source_filter text default null
+)
+returns setof public.astronomical_data
+language sql
+stable
+security invoker
+as $$
+  select *
+  from public.astronomical_data d
+  where (location_pattern is null or d.location ilike '%' || location_pattern || '%')
+    and (date_from is null or d.date >= date_from)
+    and (date_to is null or d.date <= date_to)
+    and (source_filter is null or d.source = source_filter);
+$$;
+
+-- Totals for the Visualize stats: day length extremes and averages (in
+-- seconds), rows per source and the average day length per location
+create or replace function public.astronomical_summary(
+  location_pattern text default null,
+  date_from date default null,
+  date_to date default null,
+  source_filter text default null
+)
+returns jsonb
+language sql
+stable
+security invoker
+as $$
+  with filtered as (
+    select *
+    from public.astronomical_filtered(
+      location_pattern, date_from, date_to, source_filter
+    )
+  )
+  select jsonb_build_object(
+    'rows', (select count(*) from filtered),
+    'avg_day_length', (select avg(day_length) from filtered),
+    'max_day_length', (select max(day_length) from filtered),
+    'min_day_length', (select min(day_length) from filtered),
+    'sources', coalesce(
+      (
+        select jsonb_agg(
+          jsonb_build_object('source', source, 'rows', rows) order by source
+        )
+        from (
+          select source, count(*) as rows from filtered group by source
+        ) s
+      ),
+      '[]'::jsonb
+    ),
+    'locations', coalesce(
+      (
+        select jsonb_agg(
+          jsonb_build_object(
+            'location', location,
+            'latitude', latitude,
+            'avg_day_length', avg_day_length
+          )
+          order by location
+        )
+        from (
+          select
+            min(location) as location,
+            avg(latitude) as latitude,
+            avg(day_length) as avg_day_length
+          from filtered
+          group by location_key
+        ) l
+      ),
+      '[]'::jsonb
+    )
+  );
+$$;
+
+-- The rows matching the filters averaged into date buckets per location
+-- and source, wide enough that all series together have at most
+-- max_points points. Each bucket is dated by its first day and its times
+-- are the average instants, which keep the average local time of day.
+-- The crew snapshot is the bucket's newest.
+create or replace function public.astronomical_chart_points(
+  location_pattern text default null,
+  date_from date default null,
+  date_to date default null,
+  source_filter text default null,
+  max_points integer default 2000
+)
+returns table (
+  id text,
+  location_key text,
+  location text,
+  latitude double precision,
+  longitude double precision,
+  timezone text,
+  date date,
+  source text,
+  rows integer,
+  day_length integer,
+  sunrise timestamptz,
+  sunset timestamptz,
+  solar_noon timestamptz,
+  civil_twilight_begin timestamptz,
+  civil_twilight_end timestamptz,
+  nautical_twilight_begin timestamptz,
+  nautical_twilight_end timestamptz,
+  astronomical_twilight_begin timestamptz,
+  astronomical_twilight_end timestamptz,
+  first_light timestamptz,
+  last_light timestamptz,
+  golden_hour timestamptz,
+  people_in_space integer,
+  people_details jsonb,
+  created_at timestamptz
+)
+language sql
+stable
+security invoker
+as $$
+  with filtered as (
+    select *
+    from public.astronomical_filtered(
+      location_pattern, date_from, date_to, source_filter
+    )
+  ),
+  span as (
+    select
+      min(f.date) as first_date,
+      greatest(
+        1,
+        ceil(
+          ((max(f.date) - min(f.date)) + 1)::numeric
+            * count(distinct (f.location_key, f.source))
+            / greatest(max_points, 1)
+        )
+      )::integer as width
+    from filtered f
+  ),
+  bucketed as (
+    select
+      f.*,
+      s.first_date + ((f.date - s.first_date) / s.width) * s.width as bucket
+    from filtered f
+    cross join span s
+  )
+  select
+    b.location_key || '|' || b.source || '|' || b.bucket as id,
+    b.location_key,
+    min(b.location)::text as location,
+    avg(b.latitude)::double precision as latitude,
+    avg(b.longitude)::double precision as longitude,
+    max(b.timezone)::text as timezone,
+    b.bucket as date,
+    b.source,
+    count(*)::integer as rows,
+    round(avg(b.day_length))::integer as day_length,
+    to_timestamp(avg(extract(epoch from b.sunrise::timestamptz))) as sunrise,
+    to_timestamp(avg(extract(epoch from b.sunset::timestamptz))) as sunset,
+    to_timestamp(avg(extract(epoch from b.solar_noon::timestamptz))) as solar_noon,
+    to_timestamp(avg(extract(epoch from b.civil_twilight_begin))) as civil_twilight_begin,
+    to_timestamp(avg(extract(epoch from b.civil_twilight_end))) as civil_twilight_end,
+    to_timestamp(avg(extract(epoch from b.nautical_twilight_begin))) as nautical_twilight_begin,
+    to_timestamp(avg(extract(epoch from b.nautical_twilight_end))) as nautical_twilight_end,
+    to_timestamp(avg(extract(epoch from b.astronomical_twilight_begin))) as astronomical_twilight_begin,
+    to_timestamp(avg(extract(epoch from b.astronomical_twilight_end))) as astronomical_twilight_end,
+    to_timestamp(avg(extract(epoch from b.first_light))) as first_light,
+    to_timestamp(avg(extract(epoch from b.last_light))) as last_light,
+    to_timestamp(avg(extract(epoch from b.golden_hour))) as golden_hour,
+    (array_agg(b.people_in_space order by b.created_at desc)
+      filter (where b.people_in_space is not null))[1]::integer as people_in_space,
+    (array_agg(b.people_details order by b.created_at desc)
+      filter (where b.people_in_space is not null))[1]::jsonb as people_details,
+    coalesce(
+      max(b.created_at) filter (where b.people_in_space is not null),
+      max(b.created_at)
+    )::timestamptz as created_at
+  from bucketed b
+  group by b.location_key, b.source, b.bucket
+  order by b.location_key, b.source, b.bucket;
+$$;